@@ -3,8 +3,20 @@
 import { useEffect } from "react";
 import { Dashboard } from "@/components/Dashboard";
 import { Footer } from "@/components/layout/Footer";
+import { readSharedStateFromUrl } from "@/lib/share-link";
+import { useSimulationStore } from "@/lib/store/simulation-state";
 
 export default function Home() {
+  // Load the workload and algorithm from a shared link
+  useEffect(() => {
+    const shared = readSharedStateFromUrl();
+    if (!shared) return;
+
+    const { setProcesses, setAlgorithm } = useSimulationStore.getState();
+    setProcesses(shared.processes, shared.seed);
+    setAlgorithm(shared.algorithm, shared.config);
+  }, []);
+
   // For testing API connection
   useEffect(() => {
     const testConnection = async () => {
@@ -6,22 +6,33 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AlgorithmSelector } from "@/components/controls/AlgorithmSelector";
 import { ProcessGenerator } from "@/components/controls/ProcessGenerator";
 import { SimulationControls } from "@/components/controls/SimulationControls";
+import { HistoryScrubber } from "@/components/controls/HistoryScrubber";
 import { ProcessVisualization } from "@/components/visualization/ProcessVisualization";
 import { StatisticsPanel } from "@/components/visualization/StatisticsPanel";
+import { ProcessResultsTable } from "@/components/visualization/ProcessResultsTable";
+import { GanttChart } from "@/components/visualization/GanttChart";
 import { AlgorithmComparisonChart } from "@/components/visualization/AlgorithmComparisonChart";
-import { useSimulationStore } from "@/lib/store/simulation-state";
+import { RunHistory } from "@/components/visualization/RunHistory";
+import { QuantumSweep } from "@/components/visualization/QuantumSweep";
+import { MonteCarloExperiment } from "@/components/visualization/MonteCarloExperiment";
+import { useSimulationStore, useDisplayedSimulation } from "@/lib/store/simulation-state";
 import { useAlgorithmResultsStore } from "@/lib/store/algorithm-results";
 import { 
   initializeSocket, 
-  cleanupSocket
+  cleanupSocket,
+  SimulationEngine
 } from "@/lib/socket";
 import { generateId } from "@/lib/utils";
 
 export function Dashboard() {
   const [activeTab, setActiveTab] = useState<string>("configuration");
   const [socketInitialized, setSocketInitialized] = useState<boolean>(false);
+  // Simulations run in the browser until the backend socket connects
+  const [engine, setEngine] = useState<SimulationEngine>('local');
   const { simulation, updateSimulationStep, setStatus } = useSimulationStore();
   const { addResult } = useAlgorithmResultsStore();
+  // Past step while scrubbing the timeline, otherwise the live simulation
+  const displayedSimulation = useDisplayedSimulation();
   const algorithmRef = useRef(simulation.algorithm);
 
   // Keep the algorithm reference updated
@@ -53,6 +64,9 @@ export function Dashboard() {
             return;
           }
           
+          // Config and workload the run was started with
+          const { algorithmConfig, processes, workloadSeed } = useSimulationStore.getState().simulation;
+          
           // Create a properly structured result object
           const resultToAdd = {
             id: generateId(),
@@ -72,8 +86,16 @@ export function Dashboard() {
               avgResponseTime: data.statistics?.avgResponseTime?.toString() || '0',
               throughput: data.statistics?.throughput?.toString() || '0',
               contextSwitches: Number(data.statistics?.contextSwitches || 0),
-              avgArrivalsPerStep: data.statistics?.avgArrivalsPerStep?.toString() || '0'
+              avgArrivalsPerStep: data.statistics?.avgArrivalsPerStep?.toString() || '0',
+              migrations: data.statistics?.migrations !== undefined ? Number(data.statistics.migrations) : undefined,
+              loadImbalance: data.statistics?.loadImbalance?.toString(),
+              overheadTime: data.statistics?.overheadTime !== undefined ? Number(data.statistics.overheadTime) : undefined,
+              overheadPercentage: data.statistics?.overheadPercentage?.toString(),
+              effectiveCpuUtilization: data.statistics?.effectiveCpuUtilization?.toString()
             },
+            config: algorithmConfig,
+            workload: processes,
+            seed: workloadSeed,
             timestamp: Date.now()
           };
           
@@ -103,7 +125,9 @@ export function Dashboard() {
         } else if (typeof stateData === 'string') {
           setStatus(stateData as 'idle' | 'running' | 'paused' | 'completed');
         }
-      }
+      },
+      // On engine change (backend connected or unreachable)
+      setEngine
     );
     
     setSocketInitialized(true);
@@ -135,14 +159,18 @@ export function Dashboard() {
         <TabsContent value="configuration" className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <AlgorithmSelector />
-            <SimulationControls socketInitialized={socketInitialized} />
+            <SimulationControls socketInitialized={socketInitialized} engine={engine} />
           </div>
           <ProcessGenerator />
         </TabsContent>
         
         {/* Simulation Tab */}
         <TabsContent value="simulation">
-          <ProcessVisualization />
+          <div className="space-y-6">
+            <HistoryScrubber />
+            <ProcessVisualization />
+            <GanttChart />
+          </div>
         </TabsContent>
         
         {/* Statistics Tab */}
@@ -156,11 +184,11 @@ export function Dashboard() {
               </CardHeader>
               <CardContent className="h-[120px] flex items-center justify-center">
                 <div className="text-center">
-                  {simulation.queues.runningProcess ? (
+                  {displayedSimulation.queues.runningProcess ? (
                     <div>
-                      <p className="font-medium">{simulation.queues.runningProcess.name}</p>
+                      <p className="font-medium">{displayedSimulation.queues.runningProcess.name}</p>
                       <p className="text-xs text-muted-foreground">
-                        Remaining time: {simulation.queues.runningProcess.remainingTime}
+                        Remaining time: {displayedSimulation.queues.runningProcess.remainingTime}
                       </p>
                     </div>
                   ) : (
@@ -171,6 +199,7 @@ export function Dashboard() {
                 </div>
               </CardContent>
             </Card>
+            <ProcessResultsTable />
           </div>
         </TabsContent>
         
@@ -178,20 +207,9 @@ export function Dashboard() {
         <TabsContent value="comparison">
           <div className="space-y-6">
             <AlgorithmComparisonChart />
-            
-            <Card>
-              <CardHeader>
-                <CardTitle>Simulation History</CardTitle>
-                <CardDescription>Results from past simulations</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-sm">
-                  <p className="text-muted-foreground">
-                    Run different algorithms to see their performance comparison
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
+            <QuantumSweep />
+            <MonteCarloExperiment />
+            <RunHistory />
           </div>
         </TabsContent>
       </Tabs>
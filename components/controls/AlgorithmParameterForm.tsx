@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlgorithmParameter, ParameterValue, SimulationConfig } from '@/lib/api';
+import {
+  getParameterDefault,
+  getParameterInputType,
+  getParameterLabel,
+  parseParameterValue
+} from '@/lib/algorithm-parameters';
+
+interface AlgorithmParameterFormProps {
+  parameters: AlgorithmParameter[];
+  values: SimulationConfig;
+  // Only called with values that passed validation
+  onChange: (name: string, value: ParameterValue) => void;
+}
+
+export function AlgorithmParameterForm({ parameters, values, onChange }: AlgorithmParameterFormProps) {
+  // Raw text of number/text inputs, so invalid input can be shown and corrected
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  if (parameters.length === 0) {
+    return null;
+  }
+
+  const currentValue = (parameter: AlgorithmParameter): ParameterValue => {
+    const value = values[parameter.name];
+    return value === undefined || Array.isArray(value) ? getParameterDefault(parameter) : value;
+  };
+
+  const handleInput = (parameter: AlgorithmParameter, raw: string | boolean) => {
+    if (typeof raw === 'string') {
+      setDrafts(prev => ({ ...prev, [parameter.name]: raw }));
+    }
+
+    const { value, error } = parseParameterValue(parameter, raw);
+    setErrors(prev => {
+      const next = { ...prev };
+      if (error) {
+        next[parameter.name] = error;
+      } else {
+        delete next[parameter.name];
+      }
+      return next;
+    });
+
+    if (value !== undefined) {
+      onChange(parameter.name, value);
+    }
+  };
+
+  const renderInput = (parameter: AlgorithmParameter) => {
+    const value = currentValue(parameter);
+    const id = `algorithm-parameter-${parameter.name}`;
+
+    switch (getParameterInputType(parameter)) {
+      case 'boolean':
+        return (
+          <input
+            id={id}
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => handleInput(parameter, e.target.checked)}
+            className="h-4 w-4"
+          />
+        );
+
+      case 'enum':
+        return (
+          <Select value={String(value)} onValueChange={(option) => handleInput(parameter, option)}>
+            <SelectTrigger id={id} className="min-w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {parameter.options?.map(option => (
+                <SelectItem key={String(option)} value={String(option)}>
+                  {String(option)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+
+      case 'range':
+        return (
+          <div className="flex items-center gap-3">
+            <Slider
+              id={id}
+              value={[Number(value)]}
+              min={parameter.min ?? 0}
+              max={parameter.max ?? 100}
+              step={parameter.step ?? 1}
+              onValueChange={(range) => handleInput(parameter, String(range[0]))}
+              className="flex-1"
+            />
+            <span className="w-10 text-right text-sm font-mono">{String(value)}</span>
+          </div>
+        );
+
+      case 'number':
+        return (
+          <input
+            id={id}
+            type="number"
+            value={drafts[parameter.name] ?? String(value)}
+            onChange={(e) => handleInput(parameter, e.target.value)}
+            min={parameter.min}
+            max={parameter.max}
+            step={parameter.step}
+            aria-invalid={Boolean(errors[parameter.name])}
+            className="w-24 px-2 py-1 border rounded-md aria-invalid:border-red-500"
+          />
+        );
+
+      default:
+        return (
+          <input
+            id={id}
+            type="text"
+            value={drafts[parameter.name] ?? String(value)}
+            onChange={(e) => handleInput(parameter, e.target.value)}
+            className="w-full px-2 py-1 border rounded-md"
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {parameters.map(parameter => (
+        <div key={parameter.name} className="space-y-1">
+          <label
+            htmlFor={`algorithm-parameter-${parameter.name}`}
+            className="text-sm font-medium"
+            title={parameter.description}
+          >
+            {getParameterLabel(parameter)}:
+          </label>
+          {renderInput(parameter)}
+          {errors[parameter.name] ? (
+            <p className="text-xs text-red-500">{errors[parameter.name]}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">{parameter.description}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,20 +1,45 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { fetchAlgorithms, fetchAlgorithmDescriptions, AlgorithmDescription } from '@/lib/api';
+import { AlgorithmParameterForm } from '@/components/controls/AlgorithmParameterForm';
+import {
+  fetchAlgorithms,
+  fetchAlgorithmDescriptions,
+  AlgorithmDescription,
+  ParameterValue,
+  SimulationConfig
+} from '@/lib/api';
+import { getParameterDefaults } from '@/lib/algorithm-parameters';
 import { useSimulationStore } from '@/lib/store/simulation-state';
+import { CPU_PARAMETERS, getQueueMode, isMultiCore, withCpuConfig } from '@/lib/scheduler/smp';
+import { IO_PARAMETERS } from '@/lib/scheduler/devices';
+import { hasBurstSequence } from '@/lib/scheduler/bursts';
 
 export function AlgorithmSelector() {
   const [algorithms, setAlgorithms] = useState<string[]>([]);
   const [descriptions, setDescriptions] = useState<Record<string, AlgorithmDescription>>({});
-  const [selectedAlgorithm, setSelectedAlgorithm] = useState<string>('');
-  const [timeQuantum, setTimeQuantum] = useState<number>(2);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   
-  const { setAlgorithm } = useSimulationStore();
+  // The selection lives in the store only, so a reopened run, scenario or shared link
+  // changes what is shown here and later edits start from it
+  const { setAlgorithm, algorithmConfigs, cpuConfig, setCpuConfig, simulation } = useSimulationStore();
+  const selectedAlgorithm = simulation.algorithm;
+  // Devices only serve processes with I/O bursts in their burst sequence
+  const hasIo = simulation.processes.some(hasBurstSequence);
+  
+  // CPU settings last set from the forms below. When a share link, scenario or history
+  // entry replaces them instead, the forms are remounted so no stale input is shown.
+  const editedCpuConfigRef = useRef(cpuConfig);
+  const [cpuFormRevision, setCpuFormRevision] = useState<number>(0);
+  useEffect(() => {
+    if (cpuConfig !== editedCpuConfigRef.current) {
+      editedCpuConfigRef.current = cpuConfig;
+      setCpuFormRevision(revision => revision + 1);
+    }
+  }, [cpuConfig]);
   
   // Fetch algorithms and descriptions
   useEffect(() => {
@@ -29,9 +54,15 @@ export function AlgorithmSelector() {
         setAlgorithms(algorithmsData);
         setDescriptions(descriptionsData);
         
-        // Set default selected algorithm
-        if (algorithmsData.length > 0) {
-          setSelectedAlgorithm(algorithmsData[0]);
+        // Keep the algorithm already in the store (e.g. a reopened run), otherwise use the first one,
+        // filling in the defaults of parameters it hasn't set
+        const { simulation: { algorithm, algorithmConfig }, algorithmConfigs, cpuConfig } = useSimulationStore.getState();
+        const initialAlgorithm = algorithmsData.includes(algorithm) ? algorithm : algorithmsData[0];
+        if (initialAlgorithm) {
+          setAlgorithm(initialAlgorithm, withCpuConfig({
+            ...getParameterDefaults(descriptionsData[initialAlgorithm]?.parameters ?? []),
+            ...(initialAlgorithm === algorithm ? algorithmConfig : algorithmConfigs[initialAlgorithm])
+          }, cpuConfig));
         }
       } catch (err) {
         console.error('Error fetching algorithm data:', err);
@@ -42,25 +73,42 @@ export function AlgorithmSelector() {
     };
     
     fetchData();
-  }, []);
+  }, [setAlgorithm]);
   
-  // Update simulation algorithm when selection changes
-  useEffect(() => {
-    if (selectedAlgorithm) {
-      const config = selectedAlgorithm === 'RR' ? { timeQuantum } : {};
-      setAlgorithm(selectedAlgorithm, config);
+  // Defaults from the algorithm description, overridden by the values last chosen
+  // for it, with the CPU settings every algorithm shares
+  const getAlgorithmConfig = (algorithm: string, values: SimulationConfig = {}): SimulationConfig => withCpuConfig({
+    ...getParameterDefaults(descriptions[algorithm]?.parameters ?? []),
+    ...algorithmConfigs[algorithm],
+    ...values
+  }, cpuConfig);
+  
+  const selectedParameters = descriptions[selectedAlgorithm]?.parameters ?? [];
+  
+  // Queue settings only matter with several cores, balancing only with per-core queues
+  const cpuParameters = CPU_PARAMETERS.filter(parameter => {
+    if (parameter.name === 'queueMode') return isMultiCore(cpuConfig);
+    if (parameter.name === 'loadBalanceInterval') {
+      return isMultiCore(cpuConfig) && getQueueMode(cpuConfig) === 'per-core';
     }
-  }, [selectedAlgorithm, timeQuantum, setAlgorithm]);
+    return true;
+  });
   
   const handleAlgorithmChange = (algorithm: string) => {
-    setSelectedAlgorithm(algorithm);
+    setAlgorithm(algorithm, getAlgorithmConfig(algorithm));
   };
   
-  const handleTimeQuantumChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = parseInt(e.target.value, 10);
-    if (!isNaN(value) && value > 0) {
-      setTimeQuantum(value);
-    }
+  const handleParameterChange = (name: string, value: ParameterValue) => {
+    setAlgorithm(selectedAlgorithm, getAlgorithmConfig(selectedAlgorithm, {
+      ...simulation.algorithmConfig,
+      [name]: value
+    }));
+  };
+  
+  const handleCpuParameterChange = (name: string, value: ParameterValue) => {
+    const nextCpuConfig = { ...cpuConfig, [name]: value };
+    editedCpuConfigRef.current = nextCpuConfig;
+    setCpuConfig(nextCpuConfig);
   };
   
   if (loading) {
@@ -114,21 +162,32 @@ export function AlgorithmSelector() {
             ))}
           </div>
           
-          {selectedAlgorithm === 'RR' && (
+          <AlgorithmParameterForm
+            key={selectedAlgorithm}
+            parameters={selectedParameters}
+            values={simulation.algorithmConfig}
+            onChange={handleParameterChange}
+          />
+          
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">CPU</h3>
+            <AlgorithmParameterForm
+              key={cpuFormRevision}
+              parameters={cpuParameters}
+              values={cpuConfig}
+              onChange={handleCpuParameterChange}
+            />
+          </div>
+          
+          {hasIo && (
             <div className="space-y-2">
-              <label className="text-sm font-medium">
-                Time Quantum:
-              </label>
-              <div className="flex items-center gap-2">
-                <input
-                  type="number"
-                  value={timeQuantum}
-                  onChange={handleTimeQuantumChange}
-                  min={1}
-                  className="w-20 px-2 py-1 border rounded-md"
-                />
-                <span className="text-sm text-muted-foreground">time units</span>
-              </div>
+              <h3 className="text-sm font-medium">I/O Devices</h3>
+              <AlgorithmParameterForm
+                key={cpuFormRevision}
+                parameters={IO_PARAMETERS}
+                values={cpuConfig}
+                onChange={handleCpuParameterChange}
+              />
             </div>
           )}
           
@@ -0,0 +1,87 @@
+'use client';
+
+import { Fragment } from 'react';
+import { Button } from '@/components/ui/button';
+import { isCpuBurst } from '@/lib/scheduler/bursts';
+import { DEFAULT_IO_DEVICE, IO_DEVICE_LABELS, IO_DEVICES, IoDevice } from '@/lib/scheduler/devices';
+import { ArrowRight, Plus, Minus } from 'lucide-react';
+
+interface BurstSequenceEditorProps {
+  // Alternating CPU and I/O durations, starting and ending with CPU
+  bursts: number[];
+  // Device of each I/O burst
+  devices: IoDevice[];
+  onChange: (bursts: number[], devices: IoDevice[]) => void;
+}
+
+// Edits a burst sequence such as CPU 4 → I/O 3 → CPU 2. Bursts are added and
+// removed in I/O + CPU pairs so the sequence always ends with a CPU burst.
+export function BurstSequenceEditor({ bursts, devices, onChange }: BurstSequenceEditorProps) {
+  const handleDurationChange = (index: number, text: string) => {
+    const duration = parseInt(text, 10);
+    if (isNaN(duration) || duration < 1) return;
+    onChange(bursts.map((value, i) => (i === index ? duration : value)), devices);
+  };
+
+  // The I/O burst at a sequence index is the (index - 1) / 2-th one
+  const handleDeviceChange = (index: number, device: IoDevice) => {
+    const ioIndex = (index - 1) / 2;
+    onChange(bursts, devices.map((value, i) => (i === ioIndex ? device : value)));
+  };
+
+  const handleAddPair = () => {
+    onChange([...bursts, 1, 1], [...devices, devices[devices.length - 1] ?? DEFAULT_IO_DEVICE]);
+  };
+
+  const handleRemovePair = () => {
+    onChange(bursts.slice(0, -2), devices.slice(0, -1));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {bursts.map((duration, index) => (
+        <Fragment key={index}>
+          {index > 0 && <ArrowRight className="h-3 w-3 text-muted-foreground" />}
+          <label
+            className={`flex items-center gap-1 rounded-md border px-2 py-1 text-xs ${
+              isCpuBurst(index) ? 'border-blue-300 bg-blue-50' : 'border-amber-300 bg-amber-50'
+            }`}
+          >
+            {isCpuBurst(index) ? 'CPU' : (
+              <select
+                value={devices[(index - 1) / 2]}
+                onChange={(e) => handleDeviceChange(index, e.target.value as IoDevice)}
+                aria-label="I/O device"
+                className="bg-transparent text-xs"
+              >
+                {IO_DEVICES.map(device => (
+                  <option key={device} value={device}>{IO_DEVICE_LABELS[device]}</option>
+                ))}
+              </select>
+            )}
+            <input
+              type="number"
+              value={duration}
+              onChange={(e) => handleDurationChange(index, e.target.value)}
+              min={1}
+              className="w-12 px-1 py-0.5 text-sm border rounded-md bg-background"
+            />
+          </label>
+        </Fragment>
+      ))}
+      <Button variant="outline" size="sm" onClick={handleAddPair} title="Add an I/O burst and the CPU burst after it">
+        <Plus className="h-3 w-3 mr-1" />
+        I/O + CPU
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleRemovePair}
+        disabled={bursts.length < 3}
+        title="Remove the last I/O and CPU bursts"
+      >
+        <Minus className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Badge } from '@/components/ui/badge';
+import { useSimulationStore } from '@/lib/store/simulation-state';
+import {
+  ChevronsLeft,
+  StepBack,
+  StepForward,
+  Radio,
+  History
+} from 'lucide-react';
+
+export function HistoryScrubber() {
+  const { history, historyIndex, seekHistory, stepHistory } = useSimulationStore();
+
+  const lastIndex = history.length - 1;
+  const position = historyIndex ?? lastIndex;
+  const isLive = historyIndex === null;
+
+  const handleSliderChange = (value: number[]) => {
+    seekHistory(value[0]);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Timeline
+        </CardTitle>
+        <CardDescription>
+          Scrub through past steps of the simulation without re-running it
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Start a real-time simulation to record its steps.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">
+                Time {history[position]?.currentTime ?? 0}
+                <span className="text-muted-foreground font-normal">
+                  {' '}(step {position + 1} of {history.length})
+                </span>
+              </span>
+              <Badge variant={isLive ? 'default' : 'secondary'}>
+                {isLive ? 'Live' : 'Viewing history'}
+              </Badge>
+            </div>
+
+            <Slider
+              value={[position]}
+              min={0}
+              max={Math.max(lastIndex, 0)}
+              step={1}
+              onValueChange={handleSliderChange}
+              disabled={history.length < 2}
+            />
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => seekHistory(0)}
+                disabled={position === 0}
+                title="First step"
+              >
+                <ChevronsLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => stepHistory(-1)}
+                disabled={position === 0}
+                title="Step backward"
+              >
+                <StepBack className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => stepHistory(1)}
+                disabled={isLive}
+                title="Step forward"
+              >
+                <StepForward className="h-4 w-4" />
+              </Button>
+              <Button
+                variant={isLive ? 'outline' : 'default'}
+                onClick={() => seekHistory(null)}
+                disabled={isLive}
+                className="flex items-center gap-1"
+              >
+                <Radio className="h-4 w-4" /> Go Live
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,27 +1,69 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Fragment } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { fetchRandomProcesses, fetchProcessParameters, Process, ParameterInfo } from '@/lib/api';
-import { useSimulationStore } from '@/lib/store/simulation-state';
+import { useSimulationStore, GeneratorSettings } from '@/lib/store/simulation-state';
 import { generateId } from '@/lib/utils';
+import { generateSeed, parseSeed } from '@/lib/random';
+import { Badge } from '@/components/ui/badge';
+import { WorkloadDistributionSettings } from '@/components/controls/WorkloadDistributionSettings';
+import { WorkloadHistogram } from '@/components/visualization/WorkloadHistogram';
+import { WorkloadImportExport } from '@/components/controls/WorkloadImportExport';
+import { ScenarioLibrary } from '@/components/controls/ScenarioLibrary';
+import { BurstSequenceEditor } from '@/components/controls/BurstSequenceEditor';
+import { formatAffinity, getCoreCount, parseAffinity } from '@/lib/scheduler/smp';
+import { getBurstSequence, hasBurstSequence, withBursts } from '@/lib/scheduler/bursts';
+import { getIoDevices, IoDevice } from '@/lib/scheduler/devices';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+// Real-time fields may be left blank for processes without timing constraints
+const OPTIONAL_TIMING_FIELDS = ['period', 'deadline', 'wcet'] as const;
+
+const isOptionalTimingField = (field: keyof Process): field is typeof OPTIONAL_TIMING_FIELDS[number] => {
+  return (OPTIONAL_TIMING_FIELDS as readonly string[]).includes(field);
+};
 
 export function ProcessGenerator() {
-  const [processes, setProcesses] = useState<Process[]>([]);
   const [parameterInfo, setParameterInfo] = useState<Record<string, ParameterInfo>>({});
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   
-  // Process generation settings
-  const [processCount, setProcessCount] = useState<number>(5);
-  const [maxBurstTime, setMaxBurstTime] = useState<number>(10);
-  const [maxIoBurstTime, setMaxIoBurstTime] = useState<number>(5);
-  const [maxPriority, setMaxPriority] = useState<number>(10);
-  const [maxArrivalTime, setMaxArrivalTime] = useState<number>(10);
+  // The workload and generation settings live in the simulation store so they
+  // survive tab switches and can be reused by experiments
+  const {
+    simulation,
+    generatorSettings,
+    cpuConfig,
+    setProcesses: setSimulationProcesses,
+    setGeneratorSettings
+  } = useSimulationStore();
+  const { processCount, maxBurstTime, maxIoBurstTime, maxPriority, maxArrivalTime } = generatorSettings;
+  const processes: Process[] = simulation.processes;
+  
+  // Affinity can only be set once there is more than one core to choose from
+  const coreCount = getCoreCount(cpuConfig);
+  // Raw affinity text per process while it is being typed, e.g. "0, 2"
+  const [affinityDrafts, setAffinityDrafts] = useState<Record<string, string>>({});
+  // Process whose burst sequence editor is open
+  const [expandedBursts, setExpandedBursts] = useState<string | null>(null);
+  // Every column of the process table, for the editor row spanning all of them
+  const columnCount = coreCount > 1 ? 11 : 10;
   
-  const { setProcesses: setSimulationProcesses } = useSimulationStore();
+  // Raw seed input; empty means a fresh seed for every generation
+  const [seedDraft, setSeedDraft] = useState<string>(generatorSettings.seed?.toString() ?? '');
+  const seedError = seedDraft.trim() !== '' && parseSeed(seedDraft) === null;
+  
+  // Without a seed the processes were edited by hand and can't be regenerated
+  const setProcesses = (updatedProcesses: Process[], seed?: number) => {
+    // Add IDs to processes
+    setSimulationProcesses(updatedProcesses.map(process => ({
+      ...process,
+      id: process.id || generateId(),
+    })), seed);
+  };
   
   // Fetch parameter information on mount
   useEffect(() => {
@@ -37,31 +79,23 @@ export function ProcessGenerator() {
     fetchParameters();
   }, []);
   
-  // Update simulation processes when our processes change
-  useEffect(() => {
-    // Add IDs to processes
-    const processesWithIds = processes.map(process => ({
-      ...process,
-      id: process.id || generateId(),
-    }));
-    
-    setSimulationProcesses(processesWithIds);
-  }, [processes, setSimulationProcesses]);
-  
   const handleGenerateRandomProcesses = async () => {
     try {
       setLoading(true);
       setError(null);
       
+      const seed = generatorSettings.seed ?? generateSeed();
       const randomProcesses = await fetchRandomProcesses(
         processCount,
         maxBurstTime,
         maxIoBurstTime,
         maxPriority,
-        maxArrivalTime
+        maxArrivalTime,
+        seed,
+        generatorSettings
       );
       
-      setProcesses(randomProcesses);
+      setProcesses(randomProcesses, seed);
     } catch (err) {
       console.error('Error generating random processes:', err);
       setError('Failed to generate random processes. Please try again.');
@@ -72,14 +106,29 @@ export function ProcessGenerator() {
   
   const handleSettingChange = (
     e: React.ChangeEvent<HTMLInputElement>,
-    setter: React.Dispatch<React.SetStateAction<number>>
+    setting: keyof GeneratorSettings
   ) => {
     const value = parseInt(e.target.value, 10);
     if (!isNaN(value) && value > 0) {
-      setter(value);
+      setGeneratorSettings({ [setting]: value });
+    }
+  };
+  
+  const handleSeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSeedDraft(e.target.value);
+    const seed = parseSeed(e.target.value);
+    if (seed !== null || e.target.value.trim() === '') {
+      setGeneratorSettings({ seed: seed ?? undefined });
     }
   };
   
+  // Fix the seed of the current workload so the next generation reproduces it
+  const handleReuseSeed = () => {
+    if (simulation.workloadSeed === undefined) return;
+    setSeedDraft(simulation.workloadSeed.toString());
+    setGeneratorSettings({ seed: simulation.workloadSeed });
+  };
+  
   const handleAddProcess = () => {
     setProcesses([
       ...processes,
@@ -104,6 +153,7 @@ export function ProcessGenerator() {
     value: number | string
   ) => {
     const updatedProcesses = [...processes];
+    updatedProcesses[index] = { ...processes[index] };
     
     // If the field is numeric, convert the string value to a number
     const numericFields: (keyof Process)[] = [
@@ -113,7 +163,10 @@ export function ProcessGenerator() {
       'ioBurstTime',
     ];
     
-    if (typeof value === 'string' && numericFields.includes(field)) {
+    if (typeof value === 'string' && isOptionalTimingField(field)) {
+      const numValue = parseFloat(value);
+      updatedProcesses[index][field] = !isNaN(numValue) && numValue > 0 ? numValue : undefined;
+    } else if (typeof value === 'string' && numericFields.includes(field)) {
       const numValue = parseFloat(value);
       if (!isNaN(numValue)) {
         // @ts-expect-error (we know this is safe due to the numericFields check)
@@ -127,6 +180,30 @@ export function ProcessGenerator() {
     setProcesses(updatedProcesses);
   };
   
+  const handleAffinityChange = (index: number, text: string) => {
+    const process = processes[index];
+    setAffinityDrafts(prev => ({ ...prev, [process.id ?? index]: text }));
+    setProcesses(processes.map((p, i) => (i === index ? { ...p, affinity: parseAffinity(text) } : p)));
+  };
+  
+  // Show the parsed affinity once editing is done
+  const handleAffinityBlur = (index: number) => {
+    setAffinityDrafts(prev => {
+      const next = { ...prev };
+      delete next[processes[index].id ?? index];
+      return next;
+    });
+  };
+  
+  // Burst and I/O totals follow the sequence
+  const handleBurstsChange = (index: number, bursts: number[], ioDevices: IoDevice[]) => {
+    setProcesses(processes.map((p, i) => (i === index ? withBursts({ ...p, ioDevices }, bursts) : p)));
+  };
+  
+  const toggleBurstEditor = (id: string) => {
+    setExpandedBursts(prev => (prev === id ? null : id));
+  };
+  
   return (
     <Card>
       <CardHeader>
@@ -139,7 +216,7 @@ export function ProcessGenerator() {
         <div className="space-y-6">
           <div className="space-y-4">
             <h3 className="text-sm font-medium">Random Generation Settings</h3>
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
               <div className="space-y-2">
                 <label className="text-xs" title={parameterInfo.count?.description}>
                   Process Count
@@ -147,7 +224,7 @@ export function ProcessGenerator() {
                 <input
                   type="number"
                   value={processCount}
-                  onChange={(e) => handleSettingChange(e, setProcessCount)}
+                  onChange={(e) => handleSettingChange(e, 'processCount')}
                   min={1}
                   max={20}
                   className="w-full px-2 py-1 text-sm border rounded-md"
@@ -161,7 +238,7 @@ export function ProcessGenerator() {
                 <input
                   type="number"
                   value={maxBurstTime}
-                  onChange={(e) => handleSettingChange(e, setMaxBurstTime)}
+                  onChange={(e) => handleSettingChange(e, 'maxBurstTime')}
                   min={1}
                   className="w-full px-2 py-1 text-sm border rounded-md"
                 />
@@ -174,7 +251,7 @@ export function ProcessGenerator() {
                 <input
                   type="number"
                   value={maxIoBurstTime}
-                  onChange={(e) => handleSettingChange(e, setMaxIoBurstTime)}
+                  onChange={(e) => handleSettingChange(e, 'maxIoBurstTime')}
                   min={0}
                   className="w-full px-2 py-1 text-sm border rounded-md"
                 />
@@ -187,7 +264,7 @@ export function ProcessGenerator() {
                 <input
                   type="number"
                   value={maxPriority}
-                  onChange={(e) => handleSettingChange(e, setMaxPriority)}
+                  onChange={(e) => handleSettingChange(e, 'maxPriority')}
                   min={1}
                   className="w-full px-2 py-1 text-sm border rounded-md"
                 />
@@ -200,13 +277,35 @@ export function ProcessGenerator() {
                 <input
                   type="number"
                   value={maxArrivalTime}
-                  onChange={(e) => handleSettingChange(e, setMaxArrivalTime)}
+                  onChange={(e) => handleSettingChange(e, 'maxArrivalTime')}
                   min={0}
+                  disabled={generatorSettings.arrivalDistribution === 'exponential'}
                   className="w-full px-2 py-1 text-sm border rounded-md"
                 />
               </div>
+              
+              <div className="space-y-2">
+                <label className="text-xs" title="The same seed and settings always generate the same processes">
+                  Seed
+                </label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={seedDraft}
+                  onChange={handleSeedChange}
+                  placeholder="Random"
+                  aria-invalid={seedError}
+                  className="w-full px-2 py-1 text-sm border rounded-md aria-invalid:border-red-500"
+                />
+              </div>
             </div>
             
+            {seedError && (
+              <p className="text-xs text-red-500">The seed must be a whole number between 0 and 4294967295</p>
+            )}
+            
+            <WorkloadDistributionSettings />
+            
             <Button 
               onClick={handleGenerateRandomProcesses}
               disabled={loading}
@@ -215,13 +314,27 @@ export function ProcessGenerator() {
             </Button>
           </div>
           
+          <ScenarioLibrary />
+          
           {error && (
             <p className="text-red-500 text-sm">{error}</p>
           )}
           
           <div className="space-y-4">
             <div className="flex items-center justify-between">
-              <h3 className="text-sm font-medium">Processes</h3>
+              <div className="flex items-center gap-2">
+                <h3 className="text-sm font-medium">Processes</h3>
+                {simulation.workloadSeed !== undefined && (
+                  <Badge
+                    variant="outline"
+                    className="font-mono cursor-pointer"
+                    onClick={handleReuseSeed}
+                    title="Generated from this seed. Click to reuse it for the next generation."
+                  >
+                    Seed {simulation.workloadSeed}
+                  </Badge>
+                )}
+              </div>
               <Button variant="outline" size="sm" onClick={handleAddProcess}>
                 Add Process
               </Button>
@@ -237,77 +350,150 @@ export function ProcessGenerator() {
                       <TableHead>Burst Time</TableHead>
                       <TableHead>I/O Burst</TableHead>
                       <TableHead>Priority</TableHead>
+                      <TableHead title="Release a new job every this many time units (blank for a one-shot process)">Period</TableHead>
+                      <TableHead title="Time after each release by which the job must finish (defaults to the period)">Deadline</TableHead>
+                      <TableHead title="Worst-case execution time assumed by the schedulability test (defaults to the burst time)">WCET</TableHead>
+                      {coreCount > 1 && (
+                        <TableHead title={`Cores the process may run on, e.g. "0, 2" (0 to ${coreCount - 1}; blank for any core)`}>
+                          Affinity
+                        </TableHead>
+                      )}
+                      <TableHead title="Alternating CPU and I/O bursts, e.g. CPU 4 → I/O 3 → CPU 2">Bursts</TableHead>
                       <TableHead className="w-[70px]">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {processes.map((process, index) => (
-                      <TableRow key={process.id || index}>
-                        <TableCell>
-                          <input
-                            type="text"
-                            value={process.name}
-                            onChange={(e) => handleProcessChange(index, 'name', e.target.value)}
-                            className="w-full px-2 py-1 text-sm border rounded-md"
-                          />
-                        </TableCell>
-                        <TableCell>
-                          <input
-                            type="number"
-                            value={process.arrivalTime}
-                            onChange={(e) => handleProcessChange(index, 'arrivalTime', e.target.value)}
-                            min={0}
-                            className="w-16 px-2 py-1 text-sm border rounded-md"
-                          />
-                        </TableCell>
-                        <TableCell>
-                          <input
-                            type="number"
-                            value={process.burstTime}
-                            onChange={(e) => handleProcessChange(index, 'burstTime', e.target.value)}
-                            min={1}
-                            className="w-16 px-2 py-1 text-sm border rounded-md"
-                          />
-                        </TableCell>
-                        <TableCell>
-                          <input
-                            type="number"
-                            value={process.ioBurstTime ?? 0}
-                            onChange={(e) => handleProcessChange(index, 'ioBurstTime', e.target.value)}
-                            min={0}
-                            className="w-16 px-2 py-1 text-sm border rounded-md"
-                          />
-                        </TableCell>
-                        <TableCell>
-                          <input
-                            type="number"
-                            value={process.priority ?? 1}
-                            onChange={(e) => handleProcessChange(index, 'priority', e.target.value)}
-                            min={1}
-                            className="w-16 px-2 py-1 text-sm border rounded-md"
-                          />
-                        </TableCell>
-                        <TableCell>
-                          <Button 
-                            variant="ghost" 
-                            size="sm" 
-                            onClick={() => handleRemoveProcess(index)}
-                            className="h-8 w-8 p-0"
-                          >
-                            ×
-                          </Button>
-                        </TableCell>
-                      </TableRow>
-                    ))}
+                    {processes.map((process, index) => {
+                      const rowId = process.id || String(index);
+                      const bursts = getBurstSequence(process);
+                      // With a sequence the totals are derived from it
+                      const derived = hasBurstSequence(process);
+                      return (
+                        <Fragment key={rowId}>
+                          <TableRow>
+                            <TableCell>
+                              <input
+                                type="text"
+                                value={process.name}
+                                onChange={(e) => handleProcessChange(index, 'name', e.target.value)}
+                                className="w-full px-2 py-1 text-sm border rounded-md"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <input
+                                type="number"
+                                value={process.arrivalTime}
+                                onChange={(e) => handleProcessChange(index, 'arrivalTime', e.target.value)}
+                                min={0}
+                                className="w-16 px-2 py-1 text-sm border rounded-md"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <input
+                                type="number"
+                                value={process.burstTime}
+                                onChange={(e) => handleProcessChange(index, 'burstTime', e.target.value)}
+                                min={1}
+                                readOnly={derived}
+                                title={derived ? 'Total of the CPU bursts' : undefined}
+                                className="w-16 px-2 py-1 text-sm border rounded-md read-only:bg-muted"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <input
+                                type="number"
+                                value={process.ioBurstTime ?? 0}
+                                onChange={(e) => handleProcessChange(index, 'ioBurstTime', e.target.value)}
+                                min={0}
+                                readOnly={derived}
+                                title={derived ? 'Total of the I/O bursts' : undefined}
+                                className="w-16 px-2 py-1 text-sm border rounded-md read-only:bg-muted"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <input
+                                type="number"
+                                value={process.priority ?? 1}
+                                onChange={(e) => handleProcessChange(index, 'priority', e.target.value)}
+                                min={1}
+                                className="w-16 px-2 py-1 text-sm border rounded-md"
+                              />
+                            </TableCell>
+                            {(['period', 'deadline', 'wcet'] as const).map(field => (
+                              <TableCell key={field}>
+                                <input
+                                  type="number"
+                                  value={process[field] ?? ''}
+                                  onChange={(e) => handleProcessChange(index, field, e.target.value)}
+                                  min={1}
+                                  placeholder="–"
+                                  className="w-16 px-2 py-1 text-sm border rounded-md"
+                                />
+                              </TableCell>
+                            ))}
+                            {coreCount > 1 && (
+                              <TableCell>
+                                <input
+                                  type="text"
+                                  value={affinityDrafts[process.id ?? index] ?? formatAffinity(process.affinity)}
+                                  onChange={(e) => handleAffinityChange(index, e.target.value)}
+                                  onBlur={() => handleAffinityBlur(index)}
+                                  placeholder="any"
+                                  className="w-20 px-2 py-1 text-sm border rounded-md"
+                                />
+                              </TableCell>
+                            )}
+                            <TableCell>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => toggleBurstEditor(rowId)}
+                                className="font-mono text-xs"
+                              >
+                                {expandedBursts === rowId
+                                  ? <ChevronDown className="h-3 w-3 mr-1" />
+                                  : <ChevronRight className="h-3 w-3 mr-1" />}
+                                {derived ? `${bursts.length} bursts` : 'Single'}
+                              </Button>
+                            </TableCell>
+                            <TableCell>
+                              <Button 
+                                variant="ghost" 
+                                size="sm" 
+                                onClick={() => handleRemoveProcess(index)}
+                                className="h-8 w-8 p-0"
+                              >
+                                ×
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                          {expandedBursts === rowId && (
+                            <TableRow className="bg-muted/30 hover:bg-muted/30">
+                              <TableCell colSpan={columnCount}>
+                                <BurstSequenceEditor
+                                  bursts={bursts}
+                                  devices={getIoDevices({ ...process, bursts })}
+                                  onChange={(updated, ioDevices) => handleBurstsChange(index, updated, ioDevices)}
+                                />
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
+                      );
+                    })}
                   </TableBody>
                 </Table>
               </div>
             ) : (
               <p className="text-sm text-muted-foreground">
-                No processes yet. Generate random processes or add them manually.
+                No processes yet. Generate random processes, add them manually or import a file.
               </p>
             )}
           </div>
+          
+          <WorkloadImportExport processes={processes} onImport={(imported) => setProcesses(imported)} />
+          
+          <WorkloadHistogram processes={processes} />
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,151 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { BookOpen, Layers, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { fetchAlgorithmDescriptions } from '@/lib/api';
+import { formatParameterSummary } from '@/lib/algorithm-parameters';
+import { BenchmarkProgress, runBenchmark } from '@/lib/benchmark';
+import { SCENARIOS, buildScenarioRuns, getScenarioProcesses } from '@/lib/scenarios';
+import { Process, useAlgorithmResultsStore } from '@/lib/store/algorithm-results';
+import { useSimulationStore } from '@/lib/store/simulation-state';
+
+// Preset workloads that demonstrate classic scheduling phenomena, loadable
+// into the process table and benchmarkable with their recommended algorithms
+export function ScenarioLibrary() {
+  const [scenarioId, setScenarioId] = useState<string>(SCENARIOS[0].id);
+  const [progress, setProgress] = useState<BenchmarkProgress | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const { setProcesses } = useSimulationStore();
+  const { addResult } = useAlgorithmResultsStore();
+
+  const scenario = SCENARIOS.find(s => s.id === scenarioId) ?? SCENARIOS[0];
+
+  const loadScenario = (): Process[] => {
+    const processes = getScenarioProcesses(scenario);
+    setProcesses(processes);
+    return processes;
+  };
+
+  const handleLoad = () => {
+    setError(null);
+    loadScenario();
+    setMessage(`Loaded "${scenario.name}".`);
+  };
+
+  const handleLoadAndBenchmark = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      setError(null);
+      setMessage(null);
+      setProgress({ completed: 0, total: scenario.runs.length, current: null });
+
+      const processes = loadScenario();
+      const runs = buildScenarioRuns(scenario, await fetchAlgorithmDescriptions());
+
+      const outcome = await runBenchmark(runs, processes, {
+        signal: controller.signal,
+        onProgress: setProgress,
+        onResult: addResult
+      });
+
+      if (outcome.errors.length > 0) {
+        setError(`Failed to run: ${outcome.errors.map(e => e.run.algorithm).join(', ')}. Check console for details.`);
+      }
+
+      setMessage(outcome.cancelled
+        ? `Benchmark cancelled after ${outcome.results.length} of ${runs.length} runs.`
+        : `Loaded "${scenario.name}" and ran ${outcome.results.length} of ${runs.length} algorithms. See the Comparison tab.`);
+    } catch (err) {
+      console.error('Error benchmarking scenario:', err);
+      setError('Failed to benchmark the scenario. Please try again.');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium flex items-center gap-2">
+        <BookOpen className="h-4 w-4" /> Scenario Library
+      </h3>
+
+      <Select
+        value={scenarioId}
+        onValueChange={(value) => {
+          setScenarioId(value);
+          setMessage(null);
+        }}
+        disabled={progress !== null}
+      >
+        <SelectTrigger className="w-full md:w-80 h-8 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SCENARIOS.map(s => (
+            <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <p className="text-sm text-muted-foreground">{scenario.explanation}</p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-muted-foreground">Compare:</span>
+        {scenario.runs.map((run, index) => {
+          const summary = formatParameterSummary(run.config);
+          return (
+            <Badge key={index} variant="outline">
+              {summary ? `${run.algorithm} (${summary})` : run.algorithm}
+            </Badge>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={handleLoad} disabled={progress !== null}>
+          Load
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={handleLoadAndBenchmark}
+          disabled={progress !== null}
+          className="flex items-center gap-1"
+          title="Load the workload and run the recommended algorithms on it"
+        >
+          <Layers className="h-4 w-4" /> Load &amp; Benchmark
+        </Button>
+        {progress && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => abortRef.current?.abort()}
+            className="flex items-center gap-1"
+          >
+            <X className="h-4 w-4" /> Cancel
+          </Button>
+        )}
+      </div>
+
+      {progress ? (
+        <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0} />
+      ) : message && (
+        <p className="text-xs text-muted-foreground">{message}</p>
+      )}
+
+      {error && (
+        <p className="text-red-500 text-sm">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
 import { useSimulationStore } from '@/lib/store/simulation-state';
 import { useAlgorithmResultsStore } from '@/lib/store/algorithm-results';
 import { 
@@ -12,10 +13,13 @@ import {
   resumeSimulation, 
   stepSimulation, 
   resetSimulation,
-  changeTickSpeed
+  changeTickSpeed,
+  SimulationEngine
 } from '@/lib/socket';
-import { runSimulation } from '@/lib/api';
-import { generateId } from '@/lib/utils';
+import { runSimulation, fetchAlgorithms, fetchAlgorithmDescriptions } from '@/lib/api';
+import { buildAlgorithmRuns, runBenchmark, toAlgorithmResult, BenchmarkProgress } from '@/lib/benchmark';
+import { buildShareUrl } from '@/lib/share-link';
+import { getParameterLabel } from '@/lib/algorithm-parameters';
 import { Badge } from '@/components/ui/badge';
 import { 
   Play, 
@@ -24,20 +28,32 @@ import {
   FastForward, 
   Rewind, 
   RotateCcw,
-  Clock
+  Clock,
+  Layers,
+  Link2,
+  X
 } from 'lucide-react';
 
 interface SimulationControlsProps {
   socketInitialized: boolean;
+  engine?: SimulationEngine;
 }
 
-export function SimulationControls({ socketInitialized }: SimulationControlsProps) {
+export function SimulationControls({ socketInitialized, engine = 'backend' }: SimulationControlsProps) {
   const [simSpeed, setSimSpeed] = useState<number>(1000); // ms per step
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  // Progress of "Benchmark all", or null when no benchmark is running
+  const [benchmarkProgress, setBenchmarkProgress] = useState<BenchmarkProgress | null>(null);
+  const [benchmarkMessage, setBenchmarkMessage] = useState<string | null>(null);
+  const benchmarkAbortRef = useRef<AbortController | null>(null);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
   
   const { 
     simulation, 
+    algorithmConfigs,
+    cpuConfig,
+    updateSimulation,
     updateSimulationStep, 
     setStatus, 
     resetSimulation: resetSimulationState 
@@ -73,16 +89,19 @@ export function SimulationControls({ socketInitialized }: SimulationControlsProp
         currentTime: result.statistics?.totalTime || 0,
       });
       
+      // Only the in-browser engine reports the executed schedule
+      updateSimulation({ timeline: result.timeline ?? [] });
+      
       // Add to results store
       console.log('Adding result to the algorithm results store');
       
-      const resultToAdd = {
-        id: generateId(),
-        algorithm: simulation.algorithm,
-        processes: Array.isArray(result.results) ? result.results : [],
-        statistics: result.statistics || {},
-        timestamp: Date.now()
-      };
+      const resultToAdd = toAlgorithmResult(
+        simulation.algorithm,
+        result,
+        simulation.algorithmConfig,
+        simulation.processes,
+        simulation.workloadSeed
+      );
       
       console.log('Result object to add:', resultToAdd);
       addResult(resultToAdd);
@@ -103,6 +122,52 @@ export function SimulationControls({ socketInitialized }: SimulationControlsProp
     }
   };
   
+  // Run every available algorithm on the current workload
+  const handleBenchmarkAll = async () => {
+    const controller = new AbortController();
+    benchmarkAbortRef.current = controller;
+    
+    try {
+      setError(null);
+      setBenchmarkMessage(null);
+      setBenchmarkProgress({ completed: 0, total: 0, current: null });
+      
+      const [algorithms, descriptions] = await Promise.all([
+        fetchAlgorithms(),
+        fetchAlgorithmDescriptions()
+      ]);
+      
+      const runs = buildAlgorithmRuns(algorithms, descriptions, algorithmConfigs, cpuConfig);
+      
+      console.log('Benchmarking algorithms:', runs);
+      
+      const outcome = await runBenchmark(runs, simulation.processes, {
+        signal: controller.signal,
+        onProgress: setBenchmarkProgress,
+        onResult: addResult,
+        workloadSeed: simulation.workloadSeed
+      });
+      
+      if (outcome.errors.length > 0) {
+        setError(`Failed to run: ${outcome.errors.map(e => e.run.algorithm).join(', ')}. Check console for details.`);
+      }
+      
+      setBenchmarkMessage(outcome.cancelled
+        ? `Benchmark cancelled after ${outcome.results.length} of ${runs.length} algorithms.`
+        : `Benchmarked ${outcome.results.length} of ${runs.length} algorithms. See the Comparison tab.`);
+    } catch (err) {
+      console.error('Error running benchmark:', err);
+      setError('Failed to run the benchmark. Please try again.');
+    } finally {
+      benchmarkAbortRef.current = null;
+      setBenchmarkProgress(null);
+    }
+  };
+  
+  const handleCancelBenchmark = () => {
+    benchmarkAbortRef.current?.abort();
+  };
+  
   // Start real-time simulation
   const handleStartRealTimeSimulation = () => {
     try {
@@ -177,6 +242,25 @@ export function SimulationControls({ socketInitialized }: SimulationControlsProp
     }
   };
   
+  // Copy a link that opens the dashboard with this workload, algorithm and config
+  const handleCopyLink = async () => {
+    try {
+      setError(null);
+      const url = buildShareUrl({
+        algorithm: simulation.algorithm,
+        config: simulation.algorithmConfig,
+        processes: simulation.processes,
+        seed: simulation.workloadSeed
+      });
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying link:', err);
+      setError('Failed to copy the link to the clipboard.');
+    }
+  };
+  
   return (
     <Card>
       <CardHeader>
@@ -238,7 +322,7 @@ export function SimulationControls({ socketInitialized }: SimulationControlsProp
           <div className="flex flex-wrap gap-2">
             <Button 
               onClick={handleRunSimulation}
-              disabled={loading || simulation.processes.length === 0}
+              disabled={loading || benchmarkProgress !== null || simulation.processes.length === 0}
               className="flex items-center gap-1"
             >
               {loading ? 'Running...' : (
@@ -295,6 +379,62 @@ export function SimulationControls({ socketInitialized }: SimulationControlsProp
             >
               <RotateCcw className="h-4 w-4" /> Reset
             </Button>
+            
+            <Button 
+              variant="outline"
+              onClick={handleCopyLink}
+              disabled={simulation.processes.length === 0}
+              className="flex items-center gap-1"
+              title="Copy a link that opens these processes with the selected algorithm and parameters"
+            >
+              <Link2 className="h-4 w-4" /> {linkCopied ? 'Copied!' : 'Copy Link'}
+            </Button>
+          </div>
+          
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant="secondary"
+                onClick={handleBenchmarkAll}
+                disabled={
+                  loading ||
+                  benchmarkProgress !== null ||
+                  simulation.status === 'running' ||
+                  simulation.processes.length === 0
+                }
+                className="flex items-center gap-1"
+                title="Run every algorithm on the current processes and compare the results"
+              >
+                <Layers className="h-4 w-4" /> Benchmark All
+              </Button>
+              
+              {benchmarkProgress && (
+                <Button
+                  variant="outline"
+                  onClick={handleCancelBenchmark}
+                  className="flex items-center gap-1"
+                >
+                  <X className="h-4 w-4" /> Cancel
+                </Button>
+              )}
+            </div>
+            
+            {benchmarkProgress ? (
+              <div className="space-y-1">
+                <Progress
+                  value={benchmarkProgress.total > 0
+                    ? (benchmarkProgress.completed / benchmarkProgress.total) * 100
+                    : 0}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {benchmarkProgress.current
+                    ? `Running ${benchmarkProgress.current.algorithm} (${benchmarkProgress.completed + 1} of ${benchmarkProgress.total})`
+                    : 'Loading algorithms...'}
+                </p>
+              </div>
+            ) : benchmarkMessage && (
+              <p className="text-xs text-muted-foreground">{benchmarkMessage}</p>
+            )}
           </div>
           
           <div className="bg-muted p-3 rounded-md">
@@ -306,17 +446,26 @@ export function SimulationControls({ socketInitialized }: SimulationControlsProp
                 </Badge>
               </div>
               
+              <div>
+                <p className="text-sm font-medium">Engine</p>
+                <Badge variant="outline" className="mt-1" title={engine === 'local' ? 'Backend unreachable, simulations run in the browser' : undefined}>
+                  {engine === 'local' ? 'In-browser' : 'Backend'}
+                </Badge>
+              </div>
+              
               <div>
                 <p className="text-sm font-medium">Algorithm</p>
                 <p className="text-sm font-mono">{simulation.algorithm}</p>
               </div>
               
-              {simulation.algorithmConfig?.timeQuantum && (
-                <div>
-                  <p className="text-sm font-medium">Time Quantum</p>
-                  <p className="text-sm font-mono">{simulation.algorithmConfig.timeQuantum}</p>
-                </div>
-              )}
+              {Object.entries(simulation.algorithmConfig ?? {})
+                .filter(([name, value]) => name !== 'showDetailedMetrics' && value !== undefined)
+                .map(([name, value]) => (
+                  <div key={name}>
+                    <p className="text-sm font-medium">{getParameterLabel({ name })}</p>
+                    <p className="text-sm font-mono">{String(value)}</p>
+                  </div>
+                ))}
               
               <div>
                 <p className="text-sm font-medium">Processes</p>
@@ -0,0 +1,132 @@
+'use client';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { useSimulationStore } from '@/lib/store/simulation-state';
+import { ArrivalDistribution, BurstDistribution, DistributionSettings } from '@/lib/scheduler/workload';
+
+const ARRIVAL_OPTIONS: Array<{ value: ArrivalDistribution; label: string }> = [
+  { value: 'uniform', label: 'Uniform' },
+  { value: 'exponential', label: 'Poisson (exponential gaps)' },
+];
+
+const BURST_OPTIONS: Array<{ value: BurstDistribution; label: string }> = [
+  { value: 'uniform', label: 'Uniform' },
+  { value: 'exponential', label: 'Exponential' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'bimodal', label: 'Bimodal (CPU/I-O mix)' },
+];
+
+// Distribution pickers of the process generator, stored with the other generator settings
+export function WorkloadDistributionSettings() {
+  const { generatorSettings, setGeneratorSettings } = useSimulationStore();
+  const { arrivalDistribution, arrivalRate, burstDistribution, burstMean, burstStdDev, ioBoundRatio } = generatorSettings;
+
+  const handleNumberChange = (
+    e: React.ChangeEvent<HTMLInputElement>,
+    setting: keyof DistributionSettings
+  ) => {
+    const value = parseFloat(e.target.value);
+    if (!isNaN(value) && value > 0) {
+      setGeneratorSettings({ [setting]: value });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+      <div className="space-y-2 col-span-2 md:col-span-1 lg:col-span-2">
+        <label className="text-xs">Arrival Distribution</label>
+        <Select
+          value={arrivalDistribution}
+          onValueChange={(value) => setGeneratorSettings({ arrivalDistribution: value as ArrivalDistribution })}
+        >
+          <SelectTrigger className="w-full h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ARRIVAL_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {arrivalDistribution === 'exponential' && (
+        <div className="space-y-2">
+          <label className="text-xs" title="Average number of processes arriving per time unit">
+            Arrival Rate
+          </label>
+          <input
+            type="number"
+            value={arrivalRate}
+            onChange={(e) => handleNumberChange(e, 'arrivalRate')}
+            min={0.01}
+            step={0.1}
+            className="w-full px-2 py-1 text-sm border rounded-md"
+          />
+        </div>
+      )}
+
+      <div className="space-y-2 col-span-2 md:col-span-1 lg:col-span-2">
+        <label className="text-xs">Burst Distribution</label>
+        <Select
+          value={burstDistribution}
+          onValueChange={(value) => setGeneratorSettings({ burstDistribution: value as BurstDistribution })}
+        >
+          <SelectTrigger className="w-full h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BURST_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {(burstDistribution === 'exponential' || burstDistribution === 'normal') && (
+        <div className="space-y-2">
+          <label className="text-xs">Mean Burst</label>
+          <input
+            type="number"
+            value={burstMean}
+            onChange={(e) => handleNumberChange(e, 'burstMean')}
+            min={1}
+            step={0.5}
+            className="w-full px-2 py-1 text-sm border rounded-md"
+          />
+        </div>
+      )}
+
+      {burstDistribution === 'normal' && (
+        <div className="space-y-2">
+          <label className="text-xs">Burst Std Dev</label>
+          <input
+            type="number"
+            value={burstStdDev}
+            onChange={(e) => handleNumberChange(e, 'burstStdDev')}
+            min={0.1}
+            step={0.5}
+            className="w-full px-2 py-1 text-sm border rounded-md"
+          />
+        </div>
+      )}
+
+      {burstDistribution === 'bimodal' && (
+        <div className="space-y-2 col-span-2">
+          <label className="text-xs" title="I/O-bound processes have short CPU bursts and long I/O bursts; CPU-bound ones the opposite">
+            I/O-bound Share: {Math.round(ioBoundRatio * 100)}%
+          </label>
+          <Slider
+            value={[ioBoundRatio]}
+            min={0}
+            max={1}
+            step={0.05}
+            onValueChange={(value) => setGeneratorSettings({ ioBoundRatio: value[0] })}
+            className="py-2"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
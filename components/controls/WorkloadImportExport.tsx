@@ -0,0 +1,206 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { Download, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Process } from '@/lib/api';
+import { downloadFile } from '@/lib/utils';
+import {
+  ColumnMapping,
+  WORKLOAD_FIELDS,
+  WorkloadTable,
+  exportWorkloadCsv,
+  exportWorkloadJson,
+  guessColumnMapping,
+  mapWorkloadTable,
+  parseWorkloadFile
+} from '@/lib/workload-io';
+
+interface WorkloadImportExportProps {
+  processes: Process[];
+  onImport: (processes: Process[]) => void;
+}
+
+// Select value for a field that is not read from any column
+const UNMAPPED = 'none';
+
+// Only the first errors are listed so a wrong file doesn't flood the card
+const MAX_LISTED_ERRORS = 20;
+
+// File drop target with column mapping and per-row validation for imports,
+// plus JSON and CSV downloads of the current workload
+export function WorkloadImportExport({ processes, onImport }: WorkloadImportExportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState<boolean>(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [table, setTable] = useState<WorkloadTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = useMemo(() => {
+    return table && mapping ? mapWorkloadTable(table, mapping) : null;
+  }, [table, mapping]);
+
+  const readFile = async (file: File) => {
+    try {
+      setError(null);
+      const parsed = parseWorkloadFile(file.name, await file.text());
+      if (parsed.rows.length === 0) {
+        throw new Error('The file contains no processes');
+      }
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+    } catch (err) {
+      console.error('Error reading workload file:', err);
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      handleCancel();
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) readFile(file);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) readFile(file);
+    // Allow picking the same file again after fixing it
+    e.target.value = '';
+  };
+
+  const handleMappingChange = (field: keyof ColumnMapping, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === UNMAPPED ? null : Number(value) });
+  };
+
+  const handleCancel = () => {
+    setFileName(null);
+    setTable(null);
+    setMapping(null);
+  };
+
+  const handleImport = () => {
+    if (!preview || preview.processes.length === 0) return;
+    onImport(preview.processes);
+    handleCancel();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Import / Export</h3>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => downloadFile('workload.csv', exportWorkloadCsv(processes), 'text/csv')}
+            disabled={processes.length === 0}
+          >
+            <Download className="h-4 w-4 mr-1" /> CSV
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => downloadFile('workload.json', exportWorkloadJson(processes), 'application/json')}
+            disabled={processes.length === 0}
+          >
+            <Download className="h-4 w-4 mr-1" /> JSON
+          </Button>
+        </div>
+      </div>
+
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => fileInputRef.current?.click()}
+        className={`flex flex-col items-center justify-center gap-1 p-4 border-2 border-dashed rounded-md cursor-pointer text-sm text-muted-foreground ${
+          dragging ? 'border-primary bg-muted' : ''
+        }`}
+      >
+        <Upload className="h-5 w-5" />
+        <span>Drop a CSV or JSON file here, or click to choose one</span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+
+      {error && (
+        <p className="text-red-500 text-sm">{error}</p>
+      )}
+
+      {table && mapping && preview && (
+        <div className="space-y-3 p-3 border rounded-md">
+          <div className="flex items-center justify-between">
+            <p className="text-sm">
+              <span className="font-medium">{fileName}</span>: {table.rows.length} rows
+            </p>
+            <Button variant="ghost" size="sm" onClick={handleCancel} className="h-8 w-8 p-0">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {WORKLOAD_FIELDS.map(field => (
+              <div key={field.key} className="space-y-1">
+                <label className="text-xs">
+                  {field.label}{field.required ? ' *' : ''}
+                </label>
+                <Select
+                  value={mapping[field.key] === null ? UNMAPPED : String(mapping[field.key])}
+                  onValueChange={(value) => handleMappingChange(field.key, value)}
+                >
+                  <SelectTrigger className="w-full h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>(not imported)</SelectItem>
+                    {table.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          {preview.errors.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm text-red-500">
+                {preview.errors.length} problem{preview.errors.length === 1 ? '' : 's'} found. Rows with problems are skipped.
+              </p>
+              <ul className="text-xs text-red-500 max-h-32 overflow-y-auto">
+                {preview.errors.slice(0, MAX_LISTED_ERRORS).map((rowError, index) => (
+                  <li key={index}>
+                    {rowError.row !== undefined && `${table.rowLabel} ${rowError.row}: `}{rowError.message}
+                  </li>
+                ))}
+                {preview.errors.length > MAX_LISTED_ERRORS && (
+                  <li>...and {preview.errors.length - MAX_LISTED_ERRORS} more</li>
+                )}
+              </ul>
+            </div>
+          )}
+
+          <Button size="sm" onClick={handleImport} disabled={preview.processes.length === 0}>
+            Import {preview.processes.length} of {table.rows.length} processes
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,54 @@
 'use client';
 
-import { useMemo, useEffect } from 'react';
+import { useMemo, useEffect, useState } from 'react';
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { useAlgorithmResultsStore } from '@/lib/store/algorithm-results';
-import { getAlgorithmFullName } from '@/lib/utils';
+import { useAlgorithmResultsStore, getResultLabels } from '@/lib/store/algorithm-results';
+import { ResultsExport } from '@/components/visualization/ResultsExport';
+import { getAlgorithmFullName, normalizeMetrics } from '@/lib/utils';
+import {
+  METRICS,
+  MetricKey,
+  formatMetricValue,
+  getMetrics,
+  getMetricsByGroup,
+  isLowerBetter,
+  readMetrics
+} from '@/lib/metrics';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  PolarAngleAxis,
+  PolarGrid,
+  PolarRadiusAxis,
+  Radar,
+  RadarChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
 
 
 interface AlgorithmComparisonChartProps {
-  metrics?: Array<{
-    key: string;
-    name: string;
-    unit?: string;
-    description?: string;
-  }>;
+  // Metrics shown at first and scored in the summary
+  metricKeys?: MetricKey[];
 }
 
+const DEFAULT_METRIC_KEYS: MetricKey[] = [
+  'cpuUtilization',
+  'avgWaitingTime',
+  'avgTurnaroundTime',
+  'avgResponseTime',
+  'throughput'
+];
+
 // Add a type definition for chart data items
 type ChartDataItem = Record<string, string | number>;
 
@@ -26,18 +58,36 @@ type MetricValue = {
   value: number;
 };
 
+type ChartView = 'bar' | 'radar' | 'line';
+
+const CHART_VIEWS: Array<{ value: ChartView; label: string }> = [
+  { value: 'bar', label: 'Bar' },
+  { value: 'radar', label: 'Radar' },
+  { value: 'line', label: 'Line' },
+];
+
+// Toggle rows of the chart controls
+const METRIC_GROUPS = [
+  { label: 'Metrics:', metrics: getMetricsByGroup('summary') },
+  { label: 'Tail:', metrics: getMetricsByGroup('tail') },
+  { label: 'Deadlines:', metrics: getMetricsByGroup('deadline') },
+  { label: 'Multi-core:', metrics: getMetricsByGroup('multicore') },
+  { label: 'Overhead:', metrics: getMetricsByGroup('overhead') },
+];
+
 export function AlgorithmComparisonChart({
-  metrics = [
-    { key: 'cpuUtilization', name: 'CPU Utilization', unit: '%', description: 'Percentage of time the CPU is actively processing' },
-    { key: 'avgWaitingTime', name: 'Avg Waiting Time', unit: 'ms', description: 'Average time processes spend in the ready queue' },
-    { key: 'avgTurnaroundTime', name: 'Avg Turnaround Time', unit: 'ms', description: 'Average time from process arrival to completion' },
-    { key: 'avgResponseTime', name: 'Avg Response Time', unit: 'ms', description: 'Average time from arrival to first CPU execution' },
-    { key: 'throughput', name: 'Throughput', unit: 'proc/ms', description: 'Number of processes completed per unit time' },
-  ],
+  metricKeys = DEFAULT_METRIC_KEYS,
 }: AlgorithmComparisonChartProps) {
+  const metrics = useMemo(() => getMetrics(metricKeys), [metricKeys]);
+
   const results = useAlgorithmResultsStore(state => state.results);
   const clearResults = useAlgorithmResultsStore(state => state.clearResults);
   
+  const [chartView, setChartView] = useState<ChartView>('bar');
+  const [selectedMetrics, setSelectedMetrics] = useState<string[]>(() => metrics.map(metric => metric.key));
+  // Results are shown unless hidden, so new results appear without extra clicks
+  const [hiddenResults, setHiddenResults] = useState<string[]>([]);
+  
   // Enhanced debugging for results data
   useEffect(() => {
     console.log('AlgorithmComparisonChart results updated:', results);
@@ -72,7 +122,15 @@ export function AlgorithmComparisonChart({
     
     console.log('Processing chart data from', results.length, 'results');
     
-    return results.map(result => {
+    const labels = getResultLabels(results);
+    
+    // Keep results of the same algorithm next to each other, in order of first appearance
+    const algorithmOrder = Array.from(new Set(results.map(result => result.algorithm)));
+    const groupedResults = [...results].sort(
+      (a, b) => algorithmOrder.indexOf(a.algorithm) - algorithmOrder.indexOf(b.algorithm)
+    );
+    
+    return groupedResults.map(result => {
       if (!result || !result.statistics) {
         console.warn('Invalid result found:', result);
         return null;
@@ -83,11 +141,8 @@ export function AlgorithmComparisonChart({
         id: result.id,
         algorithm: result.algorithm,
         algorithmName: getAlgorithmFullName(result.algorithm),
-        cpuUtilization: parseFloat(result.statistics.cpuUtilization || '0'),
-        avgWaitingTime: parseFloat(result.statistics.avgWaitingTime || '0'),
-        avgTurnaroundTime: parseFloat(result.statistics.avgTurnaroundTime || '0'),
-        avgResponseTime: parseFloat(result.statistics.avgResponseTime || '0'),
-        throughput: parseFloat(result.statistics.throughput || '0') * 100, // Scale throughput for visibility
+        label: labels[result.id],
+        ...readMetrics({ statistics: result.statistics, processes: result.processes ?? [] }),
       } as ChartDataItem;
     }).filter((item): item is ChartDataItem => item !== null);
   }, [results]);
@@ -106,70 +161,65 @@ export function AlgorithmComparisonChart({
     ];
   }, []);
   
+  const visibleData = useMemo(
+    () => chartData.filter(item => !hiddenResults.includes(String(item.id))),
+    [chartData, hiddenResults]
+  );
+  
+  // Exports follow the result toggles
+  const visibleResults = useMemo(
+    () => results.filter(result => !hiddenResults.includes(result.id)),
+    [results, hiddenResults]
+  );
+  
+  // Any registered metric can be charted; only the initial ones are scored in the summary
+  const visibleMetrics = useMemo(
+    () => METRICS.filter(metric => selectedMetrics.includes(metric.key)),
+    [selectedMetrics]
+  );
+  
+  // Color of a result, stable while other results are hidden
+  const getResultColor = (id: string | number) => {
+    const index = chartData.findIndex(item => item.id === id);
+    return colors[Math.max(index, 0) % colors.length];
+  };
+  
   // Prepare data with standardized/z-score normalized values for better comparisons
-  // This is not currently used but will be needed for future enhancements
-  /* 
-  const normalizedData = useMemo(() => {
-    if (chartData.length === 0) return [];
-    
-    // First calculate means and standard deviations for each metric
-    const means: Record<string, number> = {};
-    const stdDevs: Record<string, number> = {};
-    
-    metrics.forEach(metric => {
-      const values = chartData.map(item => (item as Record<string, number>)[metric.key] || 0);
-      const sum = values.reduce((acc, val) => acc + val, 0);
-      const mean = sum / values.length;
-      means[metric.key] = mean;
-      
-      const squaredDiffs = values.map(val => Math.pow(val - mean, 2));
-      const variance = squaredDiffs.reduce((acc, val) => acc + val, 0) / values.length;
-      stdDevs[metric.key] = Math.sqrt(variance);
-    });
-    
-    // Handle zero standard deviation (all values are the same)
-    metrics.forEach(metric => {
-      if (stdDevs[metric.key] === 0) {
-        stdDevs[metric.key] = 1; // prevent division by zero
-      }
-    });
-    
-    // Normalize using z-score: (value - mean) / stdDev
-    return chartData.map(item => {
-      if (!item) return null;
-      
-      const normalized: Record<string, string | number> = {
-        algorithm: item.algorithm,
-        algorithmName: item.algorithmName
-      };
-      
-      metrics.forEach(metric => {
-        const value = (item as Record<string, number>)[metric.key] || 0;
-        normalized[metric.key] = (value - means[metric.key]) / stdDevs[metric.key];
-        // Also keep the original value
-        normalized[`${metric.key}Original`] = value;
-      });
-      
-      return normalized;
-    }).filter(Boolean);
-  }, [chartData, metrics]);
-  */
+  const normalizedData = useMemo(
+    () => normalizeMetrics(visibleData, visibleMetrics.map(metric => metric.key)),
+    [visibleData, visibleMetrics]
+  );
   
-  // For radar chart, we need values between 0-100
-  // Commenting out unused radarData for now - will implement later
-  /*const radarData = useMemo(() => {
+  // For radar and line charts, we need values between 0-100 where higher is always better.
+  // One entry per metric, holding the score of every visible result.
+  const scoreData = useMemo(() => {
     if (normalizedData.length === 0) return [];
     
-    // Map normalized values to 0-100 scale
-    return normalizedData.map(item => {
-      if (!item) return null;
+    return visibleMetrics.map(metric => {
+      const scored: ChartDataItem = { metric: metric.label };
       
-      const scaled: Record<string, any> = {
-      // implementation goes here
-      };
-      return scaled;
+      normalizedData.forEach(item => {
+        const zScore = Number(item[metric.key]);
+        const directed = isLowerBetter(metric) ? -zScore : zScore;
+        // Two standard deviations either side of the mean span the whole scale
+        scored[String(item.id)] = Math.min(100, Math.max(0, 50 + directed * 25));
+      });
+      
+      return scored;
     });
-  }, [normalizedData, metrics]);*/
+  }, [normalizedData, visibleMetrics]);
+  
+  const toggleMetric = (key: string) => {
+    setSelectedMetrics(prev =>
+      prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]
+    );
+  };
+  
+  const toggleResult = (id: string) => {
+    setHiddenResults(prev =>
+      prev.includes(id) ? prev.filter(r => r !== id) : [...prev, id]
+    );
+  };
   
   // Calculate insights based on the data
   const insights = useMemo(() => {
@@ -182,15 +232,13 @@ export function AlgorithmComparisonChart({
       let bestAlgo = chartData[0];
       let bestValue = (chartData[0] as Record<string, number>)[metric.key];
       
-      // For waiting time, turnaround time, and response time, lower is better
-      // For CPU utilization and throughput, higher is better
-      const isLowerBetter = ['avgWaitingTime', 'avgTurnaroundTime', 'avgResponseTime'].includes(metric.key);
+      const lowerIsBetter = isLowerBetter(metric);
       
       chartData.forEach(algo => {
         if (!algo) return;
         
         const value = (algo as Record<string, number>)[metric.key];
-        if (isLowerBetter) {
+        if (lowerIsBetter) {
           if (value < bestValue) {
             bestValue = value;
             bestAlgo = algo;
@@ -206,7 +254,7 @@ export function AlgorithmComparisonChart({
       if (!bestAlgo) return;
       
       bestAlgorithms[metric.key] = {
-        algorithm: String(bestAlgo.algorithmName),
+        algorithm: String(bestAlgo.label),
         value: bestValue
       };
     });
@@ -219,7 +267,6 @@ export function AlgorithmComparisonChart({
       
       metrics.forEach(metric => {
         const value = (algo as Record<string, number>)[metric.key];
-        const isLowerBetter = ['avgWaitingTime', 'avgTurnaroundTime', 'avgResponseTime'].includes(metric.key);
         
         // Normalize the value (0 to 1 scale)
         const allValues = chartData.map(a => (a as Record<string, number>)[metric.key]);
@@ -231,7 +278,7 @@ export function AlgorithmComparisonChart({
         // Avoid division by zero
         if (range === 0) return;
         
-        const normalizedValue = isLowerBetter 
+        const normalizedValue = isLowerBetter(metric)
           ? 1 - ((value - minValue) / range) // Invert for metrics where lower is better
           : (value - minValue) / range;
         
@@ -240,8 +287,10 @@ export function AlgorithmComparisonChart({
       });
       
       return {
+        id: algo.id,
         algorithm: algo.algorithm,
         algorithmName: algo.algorithmName,
+        label: algo.label,
         score
       };
     }).filter(Boolean);
@@ -260,13 +309,8 @@ export function AlgorithmComparisonChart({
     };
   }, [chartData, metrics]);
   
-  // Formatter function for handling different value types
-  const formatValue = (value: string | number, unit: string = '') => {
-    if (typeof value === 'number') {
-      return `${value.toFixed(2)}${unit}`;
-    }
-    return `${value}${unit}`;
-  };
+  // Formatter for values that aren't a metric, like the overall score
+  const formatValue = (value: number, unit: string = '') => `${value.toFixed(2)}${unit}`;
   
   // Function to get record by metric key with proper type handling
   // This is not currently used but will be needed for future enhancements
@@ -326,7 +370,7 @@ export function AlgorithmComparisonChart({
             </p>
             <ul className="text-sm list-disc pl-5 space-y-1 mt-2">
               {metrics.map(metric => (
-                <li key={metric.key}>{metric.name} - {metric.description}</li>
+                <li key={metric.key}>{metric.label} - {metric.description}</li>
               ))}
             </ul>
           </div>
@@ -371,10 +415,137 @@ export function AlgorithmComparisonChart({
       </CardHeader>
       <CardContent>
         {/* Chart Controls */}
-       
-       
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium w-20">Chart:</span>
+            {CHART_VIEWS.map(view => (
+              <Button
+                key={view.value}
+                variant={chartView === view.value ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setChartView(view.value)}
+              >
+                {view.label}
+              </Button>
+            ))}
+          </div>
+          
+          {METRIC_GROUPS.map(group => (
+            <div key={group.label} className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium w-20">{group.label}</span>
+              {group.metrics.map(metric => (
+                <Button
+                  key={metric.key}
+                  variant={selectedMetrics.includes(metric.key) ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => toggleMetric(metric.key)}
+                  title={metric.description}
+                >
+                  {metric.label}
+                </Button>
+              ))}
+            </div>
+          ))}
+          
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium w-20">Results:</span>
+            {chartData.map(item => (
+              <Button
+                key={item.id}
+                variant={hiddenResults.includes(String(item.id)) ? 'outline' : 'secondary'}
+                size="sm"
+                onClick={() => toggleResult(String(item.id))}
+                className="flex items-center gap-2"
+              >
+                <span
+                  className="w-3 h-3 rounded-full"
+                  style={{ backgroundColor: getResultColor(item.id) }}
+                />
+                {item.label}
+              </Button>
+            ))}
+          </div>
+          
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium w-20">Export:</span>
+            <ResultsExport results={visibleResults} />
+          </div>
+        </div>
         
-       
+        {visibleData.length === 0 || visibleMetrics.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-12">
+            Select at least one metric and one result to draw the chart.
+          </p>
+        ) : chartView === 'bar' ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+            {visibleMetrics.map(metric => (
+              <div key={metric.key}>
+                <h4 className="text-sm font-medium mb-2">
+                  {metric.label}
+                  {metric.unit && <span className="text-muted-foreground font-normal"> ({metric.unit})</span>}
+                </h4>
+                <ResponsiveContainer width="100%" height={220}>
+                  <BarChart data={visibleData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="label" tick={{ fontSize: 11 }} interval={0} />
+                    <YAxis tick={{ fontSize: 11 }} />
+                    <Tooltip formatter={(value: number) => formatMetricValue(metric, value)} />
+                    <Bar dataKey={metric.key} name={metric.label}>
+                      {visibleData.map(item => (
+                        <Cell key={item.id} fill={getResultColor(item.id)} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="mt-6">
+            <p className="text-xs text-muted-foreground mb-2">
+              Scores are z-score normalized across the visible results and oriented so that higher is always better (50 is the average).
+            </p>
+            <ResponsiveContainer width="100%" height={360}>
+              {chartView === 'radar' ? (
+                <RadarChart data={scoreData} outerRadius="75%">
+                  <PolarGrid />
+                  <PolarAngleAxis dataKey="metric" tick={{ fontSize: 11 }} />
+                  <PolarRadiusAxis domain={[0, 100]} tick={{ fontSize: 10 }} />
+                  {visibleData.map(item => (
+                    <Radar
+                      key={item.id}
+                      dataKey={String(item.id)}
+                      name={String(item.label)}
+                      stroke={getResultColor(item.id)}
+                      fill={getResultColor(item.id)}
+                      fillOpacity={0.15}
+                    />
+                  ))}
+                  <Tooltip formatter={(value: number) => value.toFixed(1)} />
+                  <Legend />
+                </RadarChart>
+              ) : (
+                <LineChart data={scoreData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="metric" tick={{ fontSize: 11 }} interval={0} />
+                  <YAxis domain={[0, 100]} tick={{ fontSize: 11 }} />
+                  {visibleData.map(item => (
+                    <Line
+                      key={item.id}
+                      type="monotone"
+                      dataKey={String(item.id)}
+                      name={String(item.label)}
+                      stroke={getResultColor(item.id)}
+                      strokeWidth={2}
+                    />
+                  ))}
+                  <Tooltip formatter={(value: number) => value.toFixed(1)} />
+                  <Legend />
+                </LineChart>
+              )}
+            </ResponsiveContainer>
+          </div>
+        )}
         
         {/* Results Summary with Enhanced Visualization */}
         <div className="mt-8">
@@ -382,7 +553,7 @@ export function AlgorithmComparisonChart({
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
             {chartData.filter(result => result !== null).map((result) => (
               <div 
-                key={result.algorithm} 
+                key={result.id} 
                 className="p-4 rounded-md border border-gray-200 dark:border-gray-800 relative overflow-hidden"
               >
                 <div className="absolute inset-0 bg-gradient-to-r from-transparent to-transparent opacity-10" 
@@ -393,8 +564,9 @@ export function AlgorithmComparisonChart({
                     className="w-3 h-3 rounded-full mr-2" 
                     style={{ backgroundColor: colors[chartData.indexOf(result) % colors.length] }}
                   />
-                  {result.algorithmName}
+                  {result.label}
                 </h5>
+                <p className="text-xs text-muted-foreground mb-2">{result.algorithmName}</p>
                 
                 <ul className="space-y-2">
                   {metrics.map((metric) => {
@@ -406,25 +578,25 @@ export function AlgorithmComparisonChart({
                     const range = maxValue - minValue;
                     
                     // For metrics where lower is better, we invert the percentage
-                    const isLowerBetter = ['avgWaitingTime', 'avgTurnaroundTime', 'avgResponseTime'].includes(metric.key);
+                    const lowerIsBetter = isLowerBetter(metric);
                     const numericValue = typeof value === 'string' ? parseFloat(value) || 0 : Number(value);
                     const percentage = range === 0 
                       ? 50 // If all algorithms have the same value
-                      : isLowerBetter
+                      : lowerIsBetter
                         ? 100 - ((numericValue - minValue) / range * 100)
                         : ((numericValue - minValue) / range * 100);
                     
                     // Determine color based on percentage (green for good, red for bad)
-                    const barColor = isLowerBetter
+                    const barColor = lowerIsBetter
                       ? `hsl(${percentage * 1.2}, 70%, 50%)`
                       : `hsl(${percentage * 1.2}, 70%, 50%)`;
                     
                     return (
-                      <li key={`${result.algorithm}-${metric.key}`} className="flex flex-col">
+                      <li key={`${result.id}-${metric.key}`} className="flex flex-col">
                         <div className="flex justify-between text-sm mb-1">
-                          <span className="text-muted-foreground">{metric.name}:</span>
+                          <span className="text-muted-foreground">{metric.label}:</span>
                           <span className="font-mono">
-                            {formatValue(value, metric.unit)}
+                            {formatMetricValue(metric, numericValue)}
                           </span>
                         </div>
                         <div className="h-2 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
@@ -447,7 +619,7 @@ export function AlgorithmComparisonChart({
                         <span className="text-muted-foreground">Overall Score:</span>
                         <span className="font-mono">
                           {(() => {
-                            const score = insights.weightedScores.find(s => s && s.algorithm === result.algorithm);
+                            const score = insights.weightedScores.find(s => s && s.id === result.id);
                             return formatValue(score ? (score.score / metrics.length * 100) : 0, '%');
                           })()}
                         </span>
@@ -457,7 +629,7 @@ export function AlgorithmComparisonChart({
                           className="h-full rounded-full bg-blue-500" 
                           style={{ 
                             width: (() => {
-                              const score = insights.weightedScores.find(s => s && s.algorithm === result.algorithm);
+                              const score = insights.weightedScores.find(s => s && s.id === result.id);
                               return `${score ? (score.score / metrics.length * 100) : 0}%`;
                             })()
                           }}
@@ -0,0 +1,232 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useDisplayedSimulation } from '@/lib/store/simulation-state';
+import { DispatchOverhead, getContextSwitchTimes, groupTimelineByCore, TimelineSlice } from '@/lib/timeline';
+import { getProcessColor } from '@/lib/utils';
+
+// Maximum number of labelled ticks on the time axis
+const MAX_AXIS_TICKS = 20;
+
+const IDLE_BACKGROUND = 'repeating-linear-gradient(45deg, #e5e7eb, #e5e7eb 4px, #f3f4f6 4px, #f3f4f6 8px)';
+
+// Time a core spends dispatching instead of running a process
+const OVERHEAD_STYLES: Record<DispatchOverhead, { label: string; background: string }> = {
+  switch: {
+    label: 'Context switch',
+    background: 'repeating-linear-gradient(45deg, #fca5a5, #fca5a5 3px, #fee2e2 3px, #fee2e2 6px)'
+  },
+  scheduler: {
+    label: 'Scheduler',
+    background: 'repeating-linear-gradient(45deg, #c4b5fd, #c4b5fd 3px, #ede9fe 3px, #ede9fe 6px)'
+  }
+};
+
+export function GanttChart() {
+  const simulation = useDisplayedSimulation();
+  const { timeline, processes, currentTime } = simulation;
+
+  const endTime = Math.max(currentTime, ...timeline.map(slice => slice.end));
+
+  // One CPU track per core; single-CPU timelines form a single track
+  const coreTracks = useMemo(() => groupTimelineByCore(timeline).map(slices => ({
+    slices,
+    switchTimes: getContextSwitchTimes(slices)
+  })), [timeline]);
+  const switchCount = coreTracks.reduce((total, track) => total + track.switchTimes.length, 0);
+
+  const idleTime = useMemo(() => {
+    return timeline
+      .filter(slice => slice.processId === null && !slice.overhead)
+      .reduce((total, slice) => total + slice.end - slice.start, 0);
+  }, [timeline]);
+
+  const overheadTime = useMemo(() => {
+    return timeline
+      .filter(slice => slice.overhead)
+      .reduce((total, slice) => total + slice.end - slice.start, 0);
+  }, [timeline]);
+  const overheadKinds = (Object.keys(OVERHEAD_STYLES) as DispatchOverhead[])
+    .filter(kind => timeline.some(slice => slice.overhead === kind));
+
+  // One row per configured process with the slices it ran in
+  const rows = useMemo(() => {
+    return processes.map((process, index) => ({
+      process,
+      color: getProcessColor(index),
+      slices: timeline.filter(slice =>
+        slice.processId === process.id ||
+        (slice.processId !== null && slice.processName === process.name)
+      )
+    }));
+  }, [processes, timeline]);
+
+  const deadlineMisses = rows.reduce((total, row) => total + (row.process.missedDeadlines?.length ?? 0), 0);
+  const hasDeadlines = processes.some(process => process.missedDeadlines !== undefined);
+
+  const colorFor = (slice: TimelineSlice): string | undefined => {
+    return rows.find(row => row.slices.includes(slice))?.color;
+  };
+
+  const axisTicks = useMemo(() => {
+    const step = Math.max(1, Math.ceil(endTime / MAX_AXIS_TICKS));
+    const ticks: number[] = [];
+    for (let time = 0; time <= endTime; time += step) {
+      ticks.push(time);
+    }
+    return ticks;
+  }, [endTime]);
+
+  const toPercent = (time: number) => (endTime > 0 ? (time / endTime) * 100 : 0);
+
+  const renderSlice = (slice: TimelineSlice, color: string | undefined, showLabel: boolean) => {
+    const overhead = slice.overhead ? OVERHEAD_STYLES[slice.overhead] : undefined;
+    const isIdle = slice.processId === null && !overhead;
+    return (
+      <div
+        key={`${slice.processId}-${slice.start}`}
+        className="absolute top-0 h-full border-r border-background flex items-center justify-center overflow-hidden text-[10px] text-white"
+        style={{
+          left: `${toPercent(slice.start)}%`,
+          width: `${toPercent(slice.end - slice.start)}%`,
+          background: overhead?.background ?? (isIdle ? IDLE_BACKGROUND : color ?? '#6b7280')
+        }}
+        title={`${overhead?.label ?? (isIdle ? 'Idle' : slice.processName)}: ${slice.start} – ${slice.end}`}
+      >
+        {showLabel && slice.processName && <span className="truncate px-1">{slice.processName}</span>}
+      </div>
+    );
+  };
+
+  const currentTimeMarker = (
+    <div
+      className="absolute top-0 h-full w-px bg-foreground/60"
+      style={{ left: `${toPercent(currentTime)}%` }}
+    />
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Gantt Chart</CardTitle>
+        <CardDescription>
+          When each process held the CPU, including idle gaps and context switches
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {timeline.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground text-sm">
+            {simulation.status === 'completed'
+              ? 'The executed schedule is not available for this run. Use a real-time simulation to build the timeline.'
+              : 'Start a simulation to see the executed schedule.'}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">Time: {endTime}</Badge>
+              <Badge variant="outline">Context switches: {switchCount}</Badge>
+              <Badge variant="outline">Idle time: {idleTime}</Badge>
+              {overheadTime > 0 && (
+                <Badge variant="outline">Overhead: {overheadTime}</Badge>
+              )}
+              {hasDeadlines && (
+                <Badge variant={deadlineMisses > 0 ? 'destructive' : 'outline'}>
+                  Deadline misses: {deadlineMisses}
+                </Badge>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              {/* CPU tracks with every slice, idle gap and context switch */}
+              {coreTracks.map((track, core) => (
+                <div key={core} className="flex items-center gap-2">
+                  <span className="w-24 shrink-0 text-xs font-medium">
+                    {coreTracks.length > 1 ? `CPU ${core}` : 'CPU'}
+                  </span>
+                  <div className="relative h-7 flex-1 rounded-sm bg-muted overflow-hidden">
+                    {track.slices.map(slice => renderSlice(slice, colorFor(slice), true))}
+                    {track.switchTimes.map(time => (
+                      <div
+                        key={`switch-${time}`}
+                        className="absolute top-0 h-full w-0.5 bg-red-500"
+                        style={{ left: `${toPercent(time)}%` }}
+                        title={`Context switch at ${time}`}
+                      />
+                    ))}
+                    {currentTimeMarker}
+                  </div>
+                </div>
+              ))}
+
+              {/* Per-process tracks */}
+              {rows.map(row => (
+                <div key={row.process.id} className="flex items-center gap-2">
+                  <span className="w-24 shrink-0 truncate text-xs text-muted-foreground" title={row.process.name}>
+                    {row.process.name}
+                  </span>
+                  <div className="relative h-5 flex-1 rounded-sm bg-muted/50 overflow-hidden">
+                    {row.slices.map(slice => renderSlice(slice, row.color, false))}
+                    {row.process.missedDeadlines?.map(deadline => (
+                      <div
+                        key={`miss-${deadline}`}
+                        className="absolute top-0 h-full w-1 -translate-x-1/2 bg-amber-500"
+                        style={{ left: `${toPercent(deadline)}%` }}
+                        title={`${row.process.name} missed its deadline at ${deadline}`}
+                      />
+                    ))}
+                    {currentTimeMarker}
+                  </div>
+                </div>
+              ))}
+
+              {/* Shared time axis */}
+              <div className="flex items-start gap-2">
+                <span className="w-24 shrink-0" />
+                <div className="relative h-5 flex-1">
+                  {axisTicks.map(time => (
+                    <span
+                      key={time}
+                      className="absolute -translate-x-1/2 text-[10px] text-muted-foreground font-mono"
+                      style={{ left: `${toPercent(time)}%` }}
+                    >
+                      {time}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 rounded-sm" style={{ background: IDLE_BACKGROUND }} />
+                Idle
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-0.5 h-3 bg-red-500" />
+                Context switch
+              </span>
+              {overheadKinds.map(kind => (
+                <span key={kind} className="flex items-center gap-1">
+                  <span className="inline-block w-3 h-3 rounded-sm" style={{ background: OVERHEAD_STYLES[kind].background }} />
+                  {OVERHEAD_STYLES[kind].label} time
+                </span>
+              ))}
+              {hasDeadlines && (
+                <span className="flex items-center gap-1">
+                  <span className="inline-block w-1 h-3 bg-amber-500" />
+                  Deadline miss
+                </span>
+              )}
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-px h-3 bg-foreground/60" />
+                Current time
+              </span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
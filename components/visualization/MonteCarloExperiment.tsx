@@ -0,0 +1,353 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { fetchAlgorithms, fetchAlgorithmDescriptions } from '@/lib/api';
+import { buildAlgorithmRuns } from '@/lib/benchmark';
+import {
+  runMonteCarloExperiment,
+  ExperimentOutcome,
+  ExperimentProgress,
+  MAX_EXPERIMENT_WORKLOADS
+} from '@/lib/experiment';
+import { pairedTTest, summarizeSample, SIGNIFICANCE_LEVEL } from '@/lib/statistics';
+import { MetricKey, getMetrics, isLowerBetter } from '@/lib/metrics';
+import { useSimulationStore } from '@/lib/store/simulation-state';
+import { getAlgorithmFullName } from '@/lib/utils';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ErrorBar,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Dices, Play, X } from 'lucide-react';
+
+// Metrics aggregated across workloads
+const EXPERIMENT_METRICS = getMetrics([
+  'avgWaitingTime',
+  'avgTurnaroundTime',
+  'avgResponseTime',
+  'cpuUtilization',
+  'throughput',
+  'contextSwitches',
+  'maxWaitingTime',
+  'jainFairnessIndex'
+]);
+
+const COLORS = ['#4f46e5', '#06b6d4', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#84cc16'];
+
+const formatNumber = (value: number) => (Number.isFinite(value) ? value.toFixed(2) : '-');
+
+const formatPValue = (pValue: number) => {
+  if (!Number.isFinite(pValue)) return '-';
+  return pValue < 0.001 ? '<0.001' : pValue.toFixed(3);
+};
+
+export function MonteCarloExperiment() {
+  const { generatorSettings, algorithmConfigs, cpuConfig } = useSimulationStore();
+
+  const [algorithms, setAlgorithms] = useState<string[]>([]);
+  const [selectedAlgorithms, setSelectedAlgorithms] = useState<string[]>([]);
+  const [workloadCount, setWorkloadCount] = useState<string>('20');
+  const [metricKey, setMetricKey] = useState<MetricKey>(EXPERIMENT_METRICS[0].key);
+  const [progress, setProgress] = useState<ExperimentProgress | null>(null);
+  const [outcome, setOutcome] = useState<ExperimentOutcome | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Load the available algorithms on mount
+  useEffect(() => {
+    const loadAlgorithms = async () => {
+      try {
+        const algorithmsData = await fetchAlgorithms();
+        setAlgorithms(algorithmsData);
+        setSelectedAlgorithms(algorithmsData);
+      } catch (err) {
+        console.error('Error fetching algorithms:', err);
+      }
+    };
+
+    loadAlgorithms();
+  }, []);
+
+  const workloads = Number(workloadCount);
+  const inputError = !Number.isInteger(workloads) || workloads < 2 || workloads > MAX_EXPERIMENT_WORKLOADS
+    ? `Choose between 2 and ${MAX_EXPERIMENT_WORKLOADS} workloads`
+    : selectedAlgorithms.length === 0
+      ? 'Select at least one algorithm'
+      : null;
+
+  const metric = EXPERIMENT_METRICS.find(m => m.key === metricKey) ?? EXPERIMENT_METRICS[0];
+
+  // Samples of the selected metric, per algorithm, in workload order
+  const samples = useMemo(() => {
+    if (!outcome) return [];
+    return Object.entries(outcome.samples)
+      .filter(([, results]) => results.length > 0)
+      .map(([algorithm, results]) => ({
+        algorithm,
+        values: results.map(result => metric.parse(result))
+      }));
+  }, [outcome, metric]);
+
+  const summaries = useMemo(() => samples.map(sample => {
+    const summary = summarizeSample(sample.values);
+    return {
+      algorithm: sample.algorithm,
+      ...summary,
+      // Distance from the mean to each end of the interval, for the error bars
+      ciMargin: summary.ciHigh - summary.mean
+    };
+  }), [samples]);
+
+  const toggleAlgorithm = (algorithm: string) => {
+    setSelectedAlgorithms(prev =>
+      prev.includes(algorithm) ? prev.filter(a => a !== algorithm) : [...prev, algorithm]
+    );
+  };
+
+  const handleRunExperiment = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      setError(null);
+      setOutcome(null);
+
+      const descriptions = await fetchAlgorithmDescriptions();
+      // Keep the order the algorithms are listed in
+      const chosen = algorithms.filter(algorithm => selectedAlgorithms.includes(algorithm));
+      const runs = buildAlgorithmRuns(chosen, descriptions, algorithmConfigs, cpuConfig);
+
+      const result = await runMonteCarloExperiment(runs, workloads, generatorSettings, {
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+
+      if (result.failedWorkloads > 0) {
+        setError(`${result.failedWorkloads} workloads failed and were left out. Check console for details.`);
+      }
+      setOutcome(result);
+    } catch (err) {
+      console.error('Error running experiment:', err);
+      setError('Failed to run the experiment. Please try again.');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Dices className="h-5 w-5" />
+          Monte Carlo Experiment
+        </CardTitle>
+        <CardDescription>
+          Run the selected algorithms on many random workloads drawn with the Process Generator settings,
+          and check which differences hold up statistically
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium w-24">Algorithms:</span>
+              {algorithms.map(algorithm => (
+                <Button
+                  key={algorithm}
+                  variant={selectedAlgorithms.includes(algorithm) ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => toggleAlgorithm(algorithm)}
+                  disabled={progress !== null}
+                >
+                  {algorithm}
+                </Button>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <label className="text-xs">Workloads</label>
+                <input
+                  type="number"
+                  value={workloadCount}
+                  onChange={(e) => setWorkloadCount(e.target.value)}
+                  min={2}
+                  max={MAX_EXPERIMENT_WORKLOADS}
+                  className="w-24 px-2 py-1 text-sm border rounded-md"
+                />
+              </div>
+
+              <Button
+                onClick={handleRunExperiment}
+                disabled={progress !== null || inputError !== null}
+                className="flex items-center gap-1"
+              >
+                <Play className="h-4 w-4" /> Run Experiment
+              </Button>
+
+              {progress && (
+                <Button
+                  variant="outline"
+                  onClick={() => abortRef.current?.abort()}
+                  className="flex items-center gap-1"
+                >
+                  <X className="h-4 w-4" /> Cancel
+                </Button>
+              )}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Each workload has {generatorSettings.processCount} processes with burst time up to {generatorSettings.maxBurstTime},
+              I/O burst up to {generatorSettings.maxIoBurstTime}, priority up to {generatorSettings.maxPriority} and
+              arrival time up to {generatorSettings.maxArrivalTime}.
+            </p>
+
+            {inputError && (
+              <p className="text-xs text-red-500">{inputError}</p>
+            )}
+            {error && (
+              <p className="text-red-500 text-sm">{error}</p>
+            )}
+
+            {progress && (
+              <div className="space-y-1">
+                <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">
+                  Workload {progress.workload} of {workloads}
+                  {progress.algorithm && ` - running ${progress.algorithm}`}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {outcome && summaries.length > 0 && (
+            <div className="space-y-6">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium w-24">Metric:</span>
+                {EXPERIMENT_METRICS.map(m => (
+                  <Button
+                    key={m.key}
+                    variant={metricKey === m.key ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setMetricKey(m.key)}
+                  >
+                    {m.label}
+                  </Button>
+                ))}
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                {outcome.workloads} workloads{outcome.cancelled && ' (cancelled early)'}, generated from
+                seed {outcome.baseSeed}. Bars show the mean, whiskers the 95% confidence interval.
+              </p>
+
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={summaries} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="algorithm" tick={{ fontSize: 11 }} interval={0} />
+                  <YAxis tick={{ fontSize: 11 }} />
+                  <Tooltip formatter={(value: number) => value.toFixed(2)} />
+                  <Bar dataKey="mean" name={`Mean ${metric.label}`} isAnimationActive={false}>
+                    {summaries.map((summary, index) => (
+                      <Cell key={summary.algorithm} fill={COLORS[index % COLORS.length]} />
+                    ))}
+                    <ErrorBar dataKey="ciMargin" width={6} stroke="#374151" />
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+
+              <div className="border rounded-md overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Algorithm</TableHead>
+                      <TableHead className="text-right">Mean</TableHead>
+                      <TableHead className="text-right">Std Dev</TableHead>
+                      <TableHead className="text-right">95% CI</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summaries.map(summary => (
+                      <TableRow key={summary.algorithm}>
+                        <TableCell title={getAlgorithmFullName(summary.algorithm)}>{summary.algorithm}</TableCell>
+                        <TableCell className="text-right font-mono">{formatNumber(summary.mean)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatNumber(summary.stdDev)}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          [{formatNumber(summary.ciLow)}, {formatNumber(summary.ciHigh)}]
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {samples.length > 1 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Pairwise significance ({metric.label})</h4>
+                  <p className="text-xs text-muted-foreground">
+                    Paired t-test on the same workloads. Highlighted cells differ at the {SIGNIFICANCE_LEVEL * 100}% level;
+                    the cell names the better algorithm of the pair and shows the p-value.
+                  </p>
+                  <div className="border rounded-md overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead />
+                          {samples.map(column => (
+                            <TableHead key={column.algorithm} className="text-center">{column.algorithm}</TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {samples.map(row => (
+                          <TableRow key={row.algorithm}>
+                            <TableCell className="font-medium">{row.algorithm}</TableCell>
+                            {samples.map(column => {
+                              if (row.algorithm === column.algorithm) {
+                                return <TableCell key={column.algorithm} className="text-center text-muted-foreground">-</TableCell>;
+                              }
+
+                              const test = pairedTTest(row.values, column.values);
+                              const significant = test.pValue < SIGNIFICANCE_LEVEL;
+                              const rowIsBetter = isLowerBetter(metric)
+                                ? test.meanDifference < 0
+                                : test.meanDifference > 0;
+                              const better = test.meanDifference === 0
+                                ? 'tie'
+                                : rowIsBetter ? row.algorithm : column.algorithm;
+
+                              return (
+                                <TableCell
+                                  key={column.algorithm}
+                                  className={`text-center text-xs ${significant ? 'bg-green-100 dark:bg-green-900/40 font-medium' : 'text-muted-foreground'}`}
+                                >
+                                  <div>{better}</div>
+                                  <div className="font-mono">p={formatPValue(test.pValue)}</div>
+                                </TableCell>
+                              );
+                            })}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
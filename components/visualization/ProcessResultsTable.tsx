@@ -0,0 +1,189 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Search } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useDisplayedSimulation } from '@/lib/store/simulation-state';
+import { useAlgorithmResultsStore, getResultLabels } from '@/lib/store/algorithm-results';
+import {
+  OUTLIER_METRICS,
+  OUTLIER_Z_SCORE,
+  OutlierDirection,
+  ProcessResultKey,
+  ProcessResultRow,
+  buildProcessResultRows,
+  findOutliers
+} from '@/lib/process-results';
+import { mean } from '@/lib/statistics';
+import { formatTime } from '@/lib/utils';
+
+const COLUMNS: Array<{ key: ProcessResultKey; label: string; title?: string }> = [
+  { key: 'name', label: 'Process' },
+  { key: 'arrivalTime', label: 'Arrival' },
+  { key: 'burstTime', label: 'Burst' },
+  { key: 'completionTime', label: 'Completion' },
+  { key: 'waitingTime', label: 'Waiting' },
+  { key: 'turnaroundTime', label: 'Turnaround' },
+  { key: 'responseTime', label: 'Response' },
+  { key: 'normalizedTurnaround', label: 'Norm. TAT', title: 'Turnaround time divided by burst time' },
+];
+
+// Source value for the processes completed in the simulation on screen
+const CURRENT_SIMULATION = 'current';
+
+const OUTLIER_CLASSES: Record<OutlierDirection, string> = {
+  high: 'bg-red-100 text-red-700 font-medium',
+  low: 'bg-green-100 text-green-700 font-medium',
+};
+
+// Per-process results of the current simulation or a stored result, so a
+// starving process stands out from the averages
+export function ProcessResultsTable() {
+  const simulation = useDisplayedSimulation();
+  const results = useAlgorithmResultsStore(state => state.results);
+  const labels = useMemo(() => getResultLabels(results), [results]);
+
+  const [source, setSource] = useState<string>(CURRENT_SIMULATION);
+  const [sort, setSort] = useState<{ key: ProcessResultKey; ascending: boolean }>({ key: 'name', ascending: true });
+  const [filter, setFilter] = useState<string>('');
+  const [outliersOnly, setOutliersOnly] = useState<boolean>(false);
+
+  // Fall back to the current simulation when the selected result was cleared
+  const selectedResult = results.find(result => result.id === source);
+  const rows = useMemo(
+    () => buildProcessResultRows(selectedResult?.processes ?? simulation.queues.completedProcesses ?? []),
+    [selectedResult, simulation.queues.completedProcesses]
+  );
+
+  const outliers = useMemo(() => Object.fromEntries(
+    OUTLIER_METRICS.map(key => [key, findOutliers(rows, key)])
+  ) as Record<ProcessResultKey, Record<string, OutlierDirection>>, [rows]);
+
+  const visibleRows = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return rows
+      .filter(row => !query || row.name.toLowerCase().includes(query))
+      .filter(row => !outliersOnly || OUTLIER_METRICS.some(key => outliers[key][row.id]))
+      .sort((a, b) => {
+        const order = typeof a[sort.key] === 'string'
+          ? String(a[sort.key]).localeCompare(String(b[sort.key]), undefined, { numeric: true })
+          : Number(a[sort.key]) - Number(b[sort.key]);
+        return sort.ascending ? order : -order;
+      });
+  }, [rows, filter, outliersOnly, outliers, sort]);
+
+  const handleSort = (key: ProcessResultKey) => {
+    setSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : true }));
+  };
+
+  const formatCell = (row: ProcessResultRow, key: ProcessResultKey) => {
+    if (key === 'name') return row.name;
+    return key === 'normalizedTurnaround' ? formatTime(row[key]) : row[key];
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Per-Process Results</CardTitle>
+        <CardDescription>
+          Metrics of every completed process. Values more than {OUTLIER_Z_SCORE} standard deviations
+          above the mean are highlighted in red, below it in green.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={selectedResult ? source : CURRENT_SIMULATION} onValueChange={setSource}>
+            <SelectTrigger className="w-64 h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CURRENT_SIMULATION}>Current simulation ({simulation.algorithm})</SelectItem>
+              {results.map(result => (
+                <SelectItem key={result.id} value={result.id}>{labels[result.id]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <input
+              type="text"
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter by name"
+              className="pl-8 pr-2 py-1 text-sm border rounded-md"
+            />
+          </div>
+
+          <Button
+            variant={outliersOnly ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setOutliersOnly(prev => !prev)}
+          >
+            Outliers only
+          </Button>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No completed processes yet. Run a simulation or pick a stored result.
+          </p>
+        ) : (
+          <div className="border rounded-md overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {COLUMNS.map(column => (
+                    <TableHead key={column.key} title={column.title}>
+                      <button
+                        type="button"
+                        onClick={() => handleSort(column.key)}
+                        className="flex items-center gap-1"
+                      >
+                        {column.label}
+                        {sort.key === column.key && (sort.ascending
+                          ? <ArrowUp className="h-3 w-3" />
+                          : <ArrowDown className="h-3 w-3" />)}
+                      </button>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.map(row => (
+                  <TableRow key={row.id}>
+                    {COLUMNS.map(column => {
+                      const direction = outliers[column.key]?.[row.id];
+                      return (
+                        <TableCell
+                          key={column.key}
+                          className={direction ? OUTLIER_CLASSES[direction] : undefined}
+                        >
+                          {formatCell(row, column.key)}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  {COLUMNS.map(column => (
+                    <TableCell key={column.key}>
+                      {column.key === 'name'
+                        ? 'Mean'
+                        : formatTime(mean(rows.map(row => Number(row[column.key]))))}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
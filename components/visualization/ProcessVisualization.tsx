@@ -4,14 +4,38 @@ import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { useSimulationStore } from '@/lib/store/simulation-state';
+import { useDisplayedSimulation } from '@/lib/store/simulation-state';
+import { Process } from '@/lib/store/algorithm-results';
+import { IO_DEVICE_LABELS, isIoDevice } from '@/lib/scheduler/devices';
+import { DispatchOverhead } from '@/lib/timeline';
+
+// What a core does before a dispatched process starts running
+const OVERHEAD_LABELS: Record<DispatchOverhead, string> = {
+  scheduler: 'Scheduling',
+  switch: 'Switching in'
+};
+
+const SERVICE_ORDER_LABELS: Record<string, string> = {
+  fcfs: 'FCFS',
+  'shortest-first': 'Shortest first',
+  priority: 'Priority'
+};
+
+const getDeviceLabel = (name: string) => (isIoDevice(name) ? IO_DEVICE_LABELS[name] : name);
+
+// Share of the current I/O burst that is done, when the burst sequence is known
+const getIoProgress = (process: Process): number | undefined => {
+  const burst = process.bursts?.[(process.burstIndex ?? 0) + 1];
+  if (burst === undefined || process.ioRemainingTime === undefined) return undefined;
+  return ((burst - process.ioRemainingTime) / burst) * 100;
+};
 
 interface ProcessVisualizationProps {
   showDetailedMetrics?: boolean;
 }
 
 export function ProcessVisualization({ showDetailedMetrics = true }: ProcessVisualizationProps) {
-  const { simulation } = useSimulationStore();
+  const simulation = useDisplayedSimulation();
   const [cpuUtilization, setCpuUtilization] = useState(0);
   
   useEffect(() => {
@@ -23,6 +47,48 @@ export function ProcessVisualization({ showDetailedMetrics = true }: ProcessVisu
   // Get extra metrics from detailed data if available
   const detailedMetrics = simulation.detailedMetrics || {};
   
+  // Multi-level algorithms report one ready queue per level
+  const levelQueues = simulation.queues.levelQueues?.length ? simulation.queues.levelQueues : undefined;
+  
+  // Multi-core simulations report every core separately
+  const cores = simulation.queues.cores?.length ? simulation.queues.cores : undefined;
+  
+  // Processes blocked on I/O, and the devices serving them when the workload has burst sequences
+  const waitingQueue = simulation.queues.waitingQueue;
+  const devices = simulation.queues.devices?.length ? simulation.queues.devices : undefined;
+  const servingIds = new Set(devices?.flatMap(device => (device.servingProcess ? [device.servingProcess.id] : [])));
+  
+  // Dispatch work each core did during the last time unit, when dispatching has a cost
+  const overhead = simulation.queues.overhead;
+  
+  const renderRunningProcess = (process: Process & { progress?: number }, dispatching?: DispatchOverhead | null) => (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="font-medium">{process.name}</span>
+        <Badge variant={dispatching ? 'secondary' : 'default'}>
+          {dispatching ? OVERHEAD_LABELS[dispatching] : 'Running'}
+        </Badge>
+      </div>
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs">
+          <span>
+            Priority: {process.priority}
+            {levelQueues && ` · Level: ${process.queueLevel ?? 0}`}
+          </span>
+          <span>Remaining: {process.remainingTime} units</span>
+        </div>
+        {process.progress !== undefined && (
+          <div className="w-full">
+            <Progress 
+              value={process.progress} 
+              className="h-1.5" 
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+  
   return (
     <Card>
       <CardHeader>
@@ -43,66 +109,209 @@ export function ProcessVisualization({ showDetailedMetrics = true }: ProcessVisu
           <Progress value={cpuUtilization} className="h-2" />
         </div>
         
-        {/* Current Running Process */}
-        <div className="space-y-2">
-          <h3 className="font-medium text-sm">CPU State</h3>
-          <div className="bg-muted p-4 rounded-md">
-            {simulation.queues.runningProcess ? (
-              <div className="space-y-3">
-                <div className="flex justify-between items-center">
-                  <span className="font-medium">{simulation.queues.runningProcess.name}</span>
-                  <Badge variant="default">Running</Badge>
+        {/* Current Running Process, or one card per core */}
+        {cores ? (
+          <div className="space-y-2">
+            <h3 className="font-medium text-sm">CPU Cores</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {cores.map(core => {
+                const coreUtilization = simulation.currentTime > 0
+                  ? (core.busyTime / simulation.currentTime) * 100
+                  : 0;
+                return (
+                  <div key={core.id} className="bg-muted p-3 rounded-md space-y-3">
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium text-sm">CPU {core.id}</span>
+                      <Badge variant="outline">{coreUtilization.toFixed(1)}%</Badge>
+                    </div>
+                    <Progress value={coreUtilization} className="h-1.5" />
+                    {core.runningProcess ? (
+                      renderRunningProcess(core.runningProcess, overhead?.[core.id])
+                    ) : (
+                      <div className="text-center py-2 text-muted-foreground text-sm">Idle</div>
+                    )}
+                    {core.readyQueue && (
+                      <div className="flex flex-wrap items-center gap-1 text-xs">
+                        <span className="text-muted-foreground mr-1">Run queue:</span>
+                        {core.readyQueue.length > 0 ? core.readyQueue.map((process, index) => (
+                          <span key={`${process.id}-${index}`} className="bg-background px-2 py-0.5 rounded-sm">
+                            {process.name}
+                          </span>
+                        )) : (
+                          <span className="text-muted-foreground">empty</span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <h3 className="font-medium text-sm">CPU State</h3>
+            <div className="bg-muted p-4 rounded-md">
+              {simulation.queues.runningProcess ? (
+                renderRunningProcess(simulation.queues.runningProcess, overhead?.[0])
+              ) : (
+                <div className="text-center py-2 text-muted-foreground">
+                  CPU Idle
                 </div>
-                <div className="space-y-1">
-                  <div className="flex justify-between text-xs">
-                    <span>Priority: {simulation.queues.runningProcess.priority}</span>
-                    <span>Remaining: {simulation.queues.runningProcess.remainingTime} units</span>
+              )}
+            </div>
+          </div>
+        )}
+        
+        {/* Ready Queues per level */}
+        {levelQueues && (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="font-medium text-sm">Ready Queues</h3>
+              <Badge variant="outline">{simulation.queues.readyQueue.length} processes</Badge>
+            </div>
+            <div className="space-y-2">
+              {levelQueues.map((queue, level) => (
+                <div key={level} className="bg-muted p-3 rounded-md">
+                  <div className="flex justify-between items-center mb-2 text-xs">
+                    <span className="font-medium">
+                      Level {level}{level === 0 ? ' (highest priority)' : level === levelQueues.length - 1 ? ' (lowest priority)' : ''}
+                    </span>
+                    <span className="text-muted-foreground">{queue.length} processes</span>
                   </div>
-                  {simulation.queues.runningProcess.progress !== undefined && (
-                    <div className="w-full">
-                      <Progress 
-                        value={simulation.queues.runningProcess.progress} 
-                        className="h-1.5" 
-                      />
+                  {queue.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {queue.map((process, index) => (
+                        <div key={`${process.id}-${index}`} className="bg-background px-2 py-1 rounded-sm text-xs">
+                          <span>{process.name}</span>
+                          <span className="text-muted-foreground ml-2">Burst: {process.remainingTime}</span>
+                        </div>
+                      ))}
                     </div>
+                  ) : (
+                    <div className="text-muted-foreground text-xs">Empty</div>
                   )}
                 </div>
-              </div>
-            ) : (
-              <div className="text-center py-2 text-muted-foreground">
-                CPU Idle
-              </div>
-            )}
+              ))}
+            </div>
           </div>
-        </div>
+        )}
         
         {/* Ready Queue */}
-        <div className="space-y-2">
-          <div className="flex justify-between items-center">
-            <h3 className="font-medium text-sm">Ready Queue</h3>
-            <Badge variant="outline">{simulation.queues.readyQueue.length} processes</Badge>
+        {!levelQueues && (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="font-medium text-sm">Ready Queue</h3>
+              <Badge variant="outline">{simulation.queues.readyQueue.length} processes</Badge>
+            </div>
+            <div className="bg-muted p-3 rounded-md max-h-40 overflow-y-auto">
+              {simulation.queues.readyQueue.length > 0 ? (
+                <div className="space-y-2">
+                  {simulation.queues.readyQueue.map((process, index) => (
+                    <div key={`${process.id}-${index}`} className="flex justify-between items-center bg-background p-2 rounded-sm text-xs">
+                      <span>{process.name}</span>
+                      <div className="flex items-center gap-2">
+                        <span className="text-muted-foreground">Burst: {process.remainingTime}</span>
+                        <span className="text-muted-foreground">Priority: {process.priority}</span>
+                        <span className="text-muted-foreground">Wait: {process.waitingTime}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-2 text-muted-foreground text-xs">
+                  No processes in ready queue
+                </div>
+              )}
+            </div>
           </div>
-          <div className="bg-muted p-3 rounded-md max-h-40 overflow-y-auto">
-            {simulation.queues.readyQueue.length > 0 ? (
-              <div className="space-y-2">
-                {simulation.queues.readyQueue.map((process, index) => (
-                  <div key={`${process.id}-${index}`} className="flex justify-between items-center bg-background p-2 rounded-sm text-xs">
-                    <span>{process.name}</span>
-                    <div className="flex items-center gap-2">
-                      <span className="text-muted-foreground">Burst: {process.remainingTime}</span>
-                      <span className="text-muted-foreground">Priority: {process.priority}</span>
-                      <span className="text-muted-foreground">Wait: {process.waitingTime}</span>
+        )}
+        
+        {/* Blocked Queue */}
+        {(devices || waitingQueue.length > 0) && (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="font-medium text-sm">Blocked Queue</h3>
+              <Badge variant="outline">{waitingQueue.length} processes</Badge>
+            </div>
+            <div className="bg-muted p-3 rounded-md max-h-40 overflow-y-auto">
+              {waitingQueue.length > 0 ? (
+                <div className="space-y-2">
+                  {waitingQueue.map((process, index) => {
+                    const ioProgress = getIoProgress(process);
+                    return (
+                      <div key={`${process.id}-${index}`} className="bg-background p-2 rounded-sm text-xs space-y-1">
+                        <div className="flex justify-between items-center">
+                          <span>{process.name}</span>
+                          <div className="flex items-center gap-2">
+                            {process.ioDevice && (
+                              <Badge variant="secondary">{getDeviceLabel(process.ioDevice)}</Badge>
+                            )}
+                            {devices && (
+                              <span className="text-muted-foreground">
+                                {servingIds.has(process.id) ? 'In service' : 'Queued'}
+                              </span>
+                            )}
+                            <span className="text-muted-foreground">I/O left: {process.ioRemainingTime ?? '–'}</span>
+                          </div>
+                        </div>
+                        {ioProgress !== undefined && <Progress value={ioProgress} className="h-1" />}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-center py-2 text-muted-foreground text-xs">
+                  No processes waiting for I/O
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+        
+        {/* I/O Devices, each serving one request at a time */}
+        {devices && (
+          <div className="space-y-2">
+            <h3 className="font-medium text-sm">I/O Devices</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {devices.map(device => {
+                const deviceUtilization = simulation.currentTime > 0
+                  ? (device.busyTime / simulation.currentTime) * 100
+                  : 0;
+                return (
+                  <div key={device.name} className="bg-muted p-3 rounded-md space-y-2">
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium text-sm">{getDeviceLabel(device.name)}</span>
+                      <Badge variant="outline">{deviceUtilization.toFixed(1)}%</Badge>
+                    </div>
+                    <Progress value={deviceUtilization} className="h-1.5" />
+                    <div className="flex justify-between text-xs">
+                      {device.servingProcess ? (
+                        <>
+                          <span className="font-medium">{device.servingProcess.name}</span>
+                          <span className="text-muted-foreground">I/O left: {device.servingProcess.ioRemainingTime}</span>
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">Idle</span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1 text-xs">
+                      <span className="text-muted-foreground mr-1">
+                        Queue ({SERVICE_ORDER_LABELS[device.serviceOrder] ?? device.serviceOrder}):
+                      </span>
+                      {device.queue.length > 0 ? device.queue.map((process, index) => (
+                        <span key={`${process.id}-${index}`} className="bg-background px-2 py-0.5 rounded-sm">
+                          {process.name}
+                        </span>
+                      )) : (
+                        <span className="text-muted-foreground">empty</span>
+                      )}
                     </div>
                   </div>
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-2 text-muted-foreground text-xs">
-                No processes in ready queue
-              </div>
-            )}
+                );
+              })}
+            </div>
           </div>
-        </div>
+        )}
         
         {/* Completed Processes */}
         <div className="space-y-2">
@@ -161,6 +370,30 @@ export function ProcessVisualization({ showDetailedMetrics = true }: ProcessVisu
                   <div className="text-lg font-mono">{detailedMetrics.contextSwitches}</div>
                 </div>
               )}
+              {detailedMetrics.migrations !== undefined && (
+                <div className="bg-muted p-3 rounded-md">
+                  <div className="text-xs text-muted-foreground">Migrations</div>
+                  <div className="text-lg font-mono">{detailedMetrics.migrations}</div>
+                </div>
+              )}
+              {detailedMetrics.loadImbalance !== undefined && (
+                <div className="bg-muted p-3 rounded-md">
+                  <div className="text-xs text-muted-foreground">Load Imbalance</div>
+                  <div className="text-lg font-mono">{detailedMetrics.loadImbalance}%</div>
+                </div>
+              )}
+              {detailedMetrics.overheadTime !== undefined && (
+                <div className="bg-muted p-3 rounded-md">
+                  <div className="text-xs text-muted-foreground">Dispatch Overhead</div>
+                  <div className="text-lg font-mono">{detailedMetrics.overheadTime} ({detailedMetrics.overheadPercentage}%)</div>
+                </div>
+              )}
+              {detailedMetrics.effectiveCpuUtilization !== undefined && (
+                <div className="bg-muted p-3 rounded-md">
+                  <div className="text-xs text-muted-foreground">Effective CPU Utilization</div>
+                  <div className="text-lg font-mono">{detailedMetrics.effectiveCpuUtilization}%</div>
+                </div>
+              )}
               {detailedMetrics.cpuIdlePercentage !== undefined && (
                 <div className="bg-muted p-3 rounded-md">
                   <div className="text-xs text-muted-foreground">CPU Idle Time</div>
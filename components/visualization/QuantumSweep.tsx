@@ -0,0 +1,230 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useSimulationStore } from '@/lib/store/simulation-state';
+import { AlgorithmResult } from '@/lib/store/algorithm-results';
+import { runBenchmark, BenchmarkProgress } from '@/lib/benchmark';
+import { buildQuantumSweepRuns, findKneeIndex, getSweepValues, validateSweepRange } from '@/lib/sweep';
+import { getMetric, readMetrics } from '@/lib/metrics';
+import { withCpuConfig } from '@/lib/scheduler/smp';
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { Play, X, TrendingDown } from 'lucide-react';
+
+// Metrics plotted against the quantum
+const SWEEP_METRICS = [
+  { ...getMetric('avgWaitingTime'), color: '#4f46e5' },
+  { ...getMetric('avgTurnaroundTime'), color: '#06b6d4' },
+  { ...getMetric('avgResponseTime'), color: '#10b981' },
+  { ...getMetric('contextSwitches'), color: '#f59e0b' },
+];
+
+// Plotted as well when switching costs time, where a small quantum pays for its switches
+const OVERHEAD_SWEEP_METRIC = { ...getMetric('overheadPercentage'), color: '#ef4444' };
+
+type SweepPoint = Record<string, number>;
+
+// Metric values of one run, keyed like SWEEP_METRICS
+const toSweepPoint = (result: AlgorithmResult): SweepPoint => ({
+  quantum: Number(result.config.timeQuantum),
+  ...readMetrics(result, [...SWEEP_METRICS, OVERHEAD_SWEEP_METRIC]),
+});
+
+export function QuantumSweep() {
+  const { simulation, algorithmConfigs, cpuConfig } = useSimulationStore();
+
+  const [from, setFrom] = useState<string>('1');
+  const [to, setTo] = useState<string>('10');
+  const [step, setStep] = useState<string>('1');
+  const [points, setPoints] = useState<SweepPoint[]>([]);
+  const [progress, setProgress] = useState<BenchmarkProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const rangeError = validateSweepRange(Number(from), Number(to), Number(step));
+
+  const plottedMetrics = useMemo(() => {
+    return points.some(p => p[OVERHEAD_SWEEP_METRIC.key] > 0) ? [...SWEEP_METRICS, OVERHEAD_SWEEP_METRIC] : SWEEP_METRICS;
+  }, [points]);
+
+  // Knee of every metric curve, as an index into points
+  const knees = useMemo(() => {
+    return Object.fromEntries(plottedMetrics.map(metric => [
+      metric.key,
+      findKneeIndex(points.map(p => ({ x: p.quantum, y: p[metric.key] })))
+    ]));
+  }, [points, plottedMetrics]);
+
+  const handleRunSweep = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      setError(null);
+      setPoints([]);
+
+      const quanta = getSweepValues(Number(from), Number(to), Number(step));
+      const runs = buildQuantumSweepRuns(quanta, withCpuConfig(algorithmConfigs.RR ?? {}, cpuConfig));
+
+      const outcome = await runBenchmark(runs, simulation.processes, {
+        signal: controller.signal,
+        onProgress: setProgress,
+        // Plot each point as soon as its run finishes
+        onResult: result => setPoints(prev => [...prev, toSweepPoint(result)]),
+        workloadSeed: simulation.workloadSeed
+      });
+
+      if (outcome.errors.length > 0) {
+        setError(`${outcome.errors.length} of ${runs.length} runs failed. Check console for details.`);
+      }
+    } catch (err) {
+      console.error('Error running quantum sweep:', err);
+      setError('Failed to run the quantum sweep. Please try again.');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingDown className="h-5 w-5" />
+          Round Robin Quantum Sweep
+        </CardTitle>
+        <CardDescription>
+          Run Round Robin on the current processes for a range of time quanta to find where a larger quantum stops paying off
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-end gap-4">
+            {[
+              { label: 'From', value: from, setter: setFrom },
+              { label: 'To', value: to, setter: setTo },
+              { label: 'Step', value: step, setter: setStep },
+            ].map(field => (
+              <div key={field.label} className="space-y-1">
+                <label className="text-xs">{field.label}</label>
+                <input
+                  type="number"
+                  value={field.value}
+                  onChange={(e) => field.setter(e.target.value)}
+                  min={1}
+                  step={1}
+                  className="w-20 px-2 py-1 text-sm border rounded-md"
+                />
+              </div>
+            ))}
+
+            <Button
+              onClick={handleRunSweep}
+              disabled={progress !== null || rangeError !== null || simulation.processes.length === 0}
+              className="flex items-center gap-1"
+            >
+              <Play className="h-4 w-4" /> Run Sweep
+            </Button>
+
+            {progress && (
+              <Button
+                variant="outline"
+                onClick={() => abortRef.current?.abort()}
+                className="flex items-center gap-1"
+              >
+                <X className="h-4 w-4" /> Cancel
+              </Button>
+            )}
+          </div>
+
+          {rangeError && (
+            <p className="text-xs text-red-500">{rangeError}</p>
+          )}
+          {simulation.processes.length === 0 && (
+            <p className="text-xs text-muted-foreground">Add processes in the Configuration tab to run a sweep.</p>
+          )}
+          {error && (
+            <p className="text-red-500 text-sm">{error}</p>
+          )}
+
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0} />
+              <p className="text-xs text-muted-foreground">
+                Quantum {String(progress.current?.config.timeQuantum ?? '')} ({progress.completed + 1} of {progress.total})
+              </p>
+            </div>
+          )}
+
+          {points.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {plottedMetrics.map(metric => {
+                const knee = knees[metric.key];
+                const kneePoint = knee !== null ? points[knee] : null;
+
+                return (
+                  <div key={metric.key}>
+                    <div className="flex items-baseline justify-between mb-2">
+                      <h4 className="text-sm font-medium">{metric.label}</h4>
+                      <span className="text-xs text-muted-foreground">
+                        {kneePoint ? `Knee at q=${kneePoint.quantum}` : 'No knee'}
+                      </span>
+                    </div>
+                    <ResponsiveContainer width="100%" height={200}>
+                      <LineChart data={points} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis
+                          dataKey="quantum"
+                          type="number"
+                          domain={['dataMin', 'dataMax']}
+                          tick={{ fontSize: 11 }}
+                        />
+                        <YAxis tick={{ fontSize: 11 }} />
+                        <Tooltip
+                          labelFormatter={(quantum) => `Quantum ${quantum}`}
+                          formatter={(value: number) => value.toFixed(2)}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey={metric.key}
+                          name={metric.label}
+                          stroke={metric.color}
+                          strokeWidth={2}
+                          isAnimationActive={false}
+                        />
+                        {kneePoint && (
+                          <>
+                            <ReferenceLine x={kneePoint.quantum} stroke="#ef4444" strokeDasharray="4 4" />
+                            <ReferenceDot
+                              x={kneePoint.quantum}
+                              y={kneePoint[metric.key]}
+                              r={5}
+                              fill="#ef4444"
+                              stroke="none"
+                            />
+                          </>
+                        )}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
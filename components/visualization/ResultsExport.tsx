@@ -0,0 +1,54 @@
+'use client';
+
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AlgorithmResult } from '@/lib/store/algorithm-results';
+import {
+  exportProcessResultsCsv,
+  exportResultsJson,
+  exportSummaryCsv,
+  getExportFileStem
+} from '@/lib/results-export';
+import { downloadFile } from '@/lib/utils';
+
+interface ResultsExportProps {
+  results: AlgorithmResult[];
+}
+
+// Download buttons for per-process rows, the aggregate summary and the full JSON
+export function ResultsExport({ results }: ResultsExportProps) {
+  const stem = getExportFileStem(results);
+  const disabled = results.length === 0;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => downloadFile(`${stem}-processes.csv`, exportProcessResultsCsv(results), 'text/csv')}
+        disabled={disabled}
+        title="One row per process with its completion, turnaround, waiting and response times"
+      >
+        <Download className="h-4 w-4 mr-1" /> Processes CSV
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => downloadFile(`${stem}-summary.csv`, exportSummaryCsv(results), 'text/csv')}
+        disabled={disabled}
+        title="One row per run with its aggregate statistics"
+      >
+        <Download className="h-4 w-4 mr-1" /> Summary CSV
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => downloadFile(`${stem}.json`, exportResultsJson(results), 'application/json')}
+        disabled={disabled}
+        title="Statistics, per-process results, workload and parameters of every run"
+      >
+        <Download className="h-4 w-4 mr-1" /> JSON
+      </Button>
+    </div>
+  );
+}
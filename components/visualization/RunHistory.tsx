@@ -0,0 +1,224 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useRunHistoryStore } from '@/lib/store/run-history';
+import { useAlgorithmResultsStore } from '@/lib/store/algorithm-results';
+import { useSimulationStore } from '@/lib/store/simulation-state';
+import { StoredRun } from '@/lib/history-db';
+import { getAlgorithmFullName } from '@/lib/utils';
+import { FolderOpen, Pencil, Search, Trash2, X } from 'lucide-react';
+
+// Whether a run matches every word of the search query
+const matchesQuery = (run: StoredRun, query: string): boolean => {
+  const haystack = [
+    run.name,
+    run.result.algorithm,
+    getAlgorithmFullName(run.result.algorithm),
+    ...run.tags
+  ].join(' ').toLowerCase();
+
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every(word => haystack.includes(word));
+};
+
+export function RunHistory() {
+  const { runs, loaded, error, loadRuns, renameRun, setRunTags, removeRun } = useRunHistoryStore();
+  const addResult = useAlgorithmResultsStore(state => state.addResult);
+  const { setAlgorithm, setProcesses } = useSimulationStore();
+
+  const [query, setQuery] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState<string>('');
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+  const [reopenedId, setReopenedId] = useState<string | null>(null);
+
+  // Load saved runs on first mount
+  useEffect(() => {
+    if (!loaded) {
+      loadRuns();
+    }
+  }, [loaded, loadRuns]);
+
+  const filteredRuns = useMemo(
+    () => runs.filter(run => matchesQuery(run, query)),
+    [runs, query]
+  );
+
+  const handleStartRename = (run: StoredRun) => {
+    setEditingId(run.id);
+    setNameDraft(run.name);
+  };
+
+  const handleFinishRename = (run: StoredRun) => {
+    const name = nameDraft.trim();
+    if (name && name !== run.name) {
+      renameRun(run.id, name);
+    }
+    setEditingId(null);
+  };
+
+  const handleAddTag = (run: StoredRun) => {
+    const tag = (tagDrafts[run.id] ?? '').trim();
+    if (tag && !run.tags.includes(tag)) {
+      setRunTags(run.id, [...run.tags, tag]);
+    }
+    setTagDrafts(prev => ({ ...prev, [run.id]: '' }));
+  };
+
+  const handleRemoveTag = (run: StoredRun, tag: string) => {
+    setRunTags(run.id, run.tags.filter(t => t !== tag));
+  };
+
+  // Bring the run back into the comparison and restore its workload and parameters
+  const handleReopen = (run: StoredRun) => {
+    addResult(run.result);
+    setProcesses(run.result.workload, run.result.seed);
+    setAlgorithm(run.result.algorithm, run.result.config);
+    setReopenedId(run.id);
+  };
+
+  const handleDelete = (run: StoredRun) => {
+    if (window.confirm(`Delete "${run.name}" from the run history?`)) {
+      removeRun(run.id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Simulation History</CardTitle>
+        <CardDescription>
+          Every completed run is saved in this browser. Reopen a run to compare it again or re-run its workload.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-2 top-2 h-4 w-4 text-muted-foreground" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name, algorithm or tag"
+              className="w-full pl-8 pr-2 py-1 text-sm border rounded-md"
+            />
+          </div>
+
+          {error && (
+            <p className="text-red-500 text-sm">{error}</p>
+          )}
+
+          {!loaded ? (
+            <p className="text-sm text-muted-foreground">Loading saved runs...</p>
+          ) : filteredRuns.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {runs.length === 0
+                ? 'Run different algorithms to see their performance comparison'
+                : 'No saved runs match your search'}
+            </p>
+          ) : (
+            <ul className="space-y-3">
+              {filteredRuns.map(run => (
+                <li key={run.id} className="border rounded-md p-3 space-y-2">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      {editingId === run.id ? (
+                        <input
+                          type="text"
+                          value={nameDraft}
+                          autoFocus
+                          onChange={(e) => setNameDraft(e.target.value)}
+                          onBlur={() => handleFinishRename(run)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleFinishRename(run);
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          className="px-2 py-1 text-sm border rounded-md"
+                        />
+                      ) : (
+                        <p className="font-medium">{run.name}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {getAlgorithmFullName(run.result.algorithm)} · {run.result.workload.length} processes ·{' '}
+                        {run.result.seed !== undefined && `seed ${run.result.seed} · `}
+                        {new Date(run.createdAt).toLocaleString()}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Avg waiting {run.result.statistics.avgWaitingTime} · Avg turnaround{' '}
+                        {run.result.statistics.avgTurnaroundTime} · CPU {run.result.statistics.cpuUtilization}%
+                      </p>
+                    </div>
+
+                    <div className="flex gap-1">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleReopen(run)}
+                        className="flex items-center gap-1"
+                      >
+                        <FolderOpen className="h-4 w-4" /> Reopen
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleStartRename(run)}
+                        title="Rename"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(run)}
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    {run.tags.map(tag => (
+                      <Badge key={tag} variant="secondary" className="flex items-center gap-1">
+                        {tag}
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveTag(run, tag)}
+                          title={`Remove tag ${tag}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                    <input
+                      type="text"
+                      value={tagDrafts[run.id] ?? ''}
+                      onChange={(e) => setTagDrafts(prev => ({ ...prev, [run.id]: e.target.value }))}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleAddTag(run);
+                      }}
+                      placeholder="Add tag"
+                      className="w-24 px-2 py-0.5 text-xs border rounded-md"
+                    />
+                  </div>
+
+                  {reopenedId === run.id && (
+                    <p className="text-xs text-green-600">
+                      Reopened: the workload and parameters are loaded in the Configuration tab.
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,53 +1,115 @@
 'use client';
 
+import { useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { useSimulationStore } from '@/lib/store/simulation-state';
-import { formatPercentage, formatTime } from '@/lib/utils';
+import { useDisplayedSimulation, useSimulationStore } from '@/lib/store/simulation-state';
+import { useAlgorithmResultsStore, getResultKey } from '@/lib/store/algorithm-results';
+import { ResultsExport } from '@/components/visualization/ResultsExport';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MetricKey, formatMetricValue, getMetric, getMetrics, getMetricsByGroup, readMetrics } from '@/lib/metrics';
+import { SchedulabilityVerdict, hasRealtimeTasks, testSchedulability } from '@/lib/scheduler/realtime';
+
+// Run metrics shown as cards while the simulation runs
+const PANEL_METRICS = getMetrics([
+  'cpuUtilization',
+  'avgWaitingTime',
+  'avgTurnaroundTime',
+  'avgResponseTime',
+  'throughput',
+  'contextSwitches'
+]);
+
+// Rows of the tail metrics table, with the metric of every column
+const TAIL_ROWS: Array<{ label: string; keys: MetricKey[] }> = (['Waiting', 'Turnaround', 'Response'] as const).map(measure => ({
+  label: measure,
+  keys: [`p50${measure}Time`, `p90${measure}Time`, `p99${measure}Time`, `max${measure}Time`]
+}));
+
+const FAIRNESS_METRICS = getMetrics(['normalizedTurnaroundStdDev', 'jainFairnessIndex']);
+
+const DEADLINE_METRICS = getMetricsByGroup('deadline');
+
+const MULTICORE_METRICS = getMetricsByGroup('multicore');
+
+const OVERHEAD_METRICS = getMetricsByGroup('overhead');
+
+const VERDICT_LABELS: Record<SchedulabilityVerdict, { label: string; className: string }> = {
+  'schedulable': { label: 'Schedulable', className: 'text-green-600' },
+  'not-schedulable': { label: 'Not schedulable', className: 'text-red-600' },
+  'inconclusive': { label: 'Inconclusive', className: 'text-amber-600' },
+};
 
 export function StatisticsPanel() {
-  const { simulation } = useSimulationStore();
+  const simulation = useDisplayedSimulation();
   const { statistics, currentTime, algorithm, queues } = simulation;
   
   const totalProcesses = simulation.processes.length;
   const completedProcesses = queues.completedProcesses?.length || 0;
   
+  // Averages hide starvation, so the tails are shown as well
+  const { detailedMetrics } = simulation;
+  const metricValues = useMemo(() => readMetrics({
+    statistics: {
+      ...statistics,
+      contextSwitches: detailedMetrics?.contextSwitches,
+      migrations: detailedMetrics?.migrations,
+      loadImbalance: detailedMetrics?.loadImbalance,
+      overheadTime: detailedMetrics?.overheadTime,
+      overheadPercentage: detailedMetrics?.overheadPercentage,
+      effectiveCpuUtilization: detailedMetrics?.effectiveCpuUtilization
+    },
+    processes: queues.completedProcesses ?? []
+  }), [statistics, detailedMetrics, queues.completedProcesses]);
+  
+  // Per-core metrics only apply when the simulation ran on several cores, overhead
+  // metrics when dispatching took time
+  const panelMetrics = [
+    ...PANEL_METRICS,
+    ...(queues.cores ? MULTICORE_METRICS : []),
+    ...(detailedMetrics?.overheadTime !== undefined ? OVERHEAD_METRICS : [])
+  ];
+  
+  // Deadlines are missed while jobs are still running, so read them from every process
+  const isRealtime = hasRealtimeTasks(simulation.processes);
+  const deadlineValues = useMemo(
+    () => readMetrics({ statistics: {}, processes: simulation.processes }, DEADLINE_METRICS),
+    [simulation.processes]
+  );
+  const schedulability = useMemo(() => testSchedulability(simulation.processes), [simulation.processes]);
+  
+  // Result saved for the finished simulation, matched by algorithm, config and workload
+  const liveSimulation = useSimulationStore(state => state.simulation);
+  const results = useAlgorithmResultsStore(state => state.results);
+  const currentResultKey = getResultKey({
+    algorithm: liveSimulation.algorithm,
+    config: liveSimulation.algorithmConfig,
+    workload: liveSimulation.processes
+  });
+  const currentResult = liveSimulation.status === 'completed'
+    ? results.find(result => getResultKey(result) === currentResultKey)
+    : undefined;
+  
   return (
     <Card>
-      <CardHeader>
-        <CardTitle>Simulation Statistics</CardTitle>
-        <CardDescription>
-          Performance metrics for the {algorithm} scheduling algorithm
-        </CardDescription>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Simulation Statistics</CardTitle>
+          <CardDescription>
+            Performance metrics for the {algorithm} scheduling algorithm
+          </CardDescription>
+        </div>
+        {currentResult && <ResultsExport results={[currentResult]} />}
       </CardHeader>
       <CardContent>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          <div className="space-y-1">
-            <p className="text-sm font-medium">CPU Utilization</p>
-            <p className="text-2xl font-bold">
-              {formatPercentage(statistics.cpuUtilization || 0)}
-            </p>
-          </div>
-          
-          <div className="space-y-1">
-            <p className="text-sm font-medium">Avg. Waiting Time</p>
-            <p className="text-2xl font-bold">
-              {formatTime(statistics.avgWaitingTime || 0)}
-            </p>
-          </div>
-          
-          <div className="space-y-1">
-            <p className="text-sm font-medium">Avg. Turnaround Time</p>
-            <p className="text-2xl font-bold">
-              {formatTime(statistics.avgTurnaroundTime || 0)}
-            </p>
-          </div>
-          
-          <div className="space-y-1">
-            <p className="text-sm font-medium">Avg. Response Time</p>
-            <p className="text-2xl font-bold">
-              {formatTime(statistics.avgResponseTime || 0)}
-            </p>
-          </div>
+          {panelMetrics.map(metric => (
+            <div key={metric.key} className="space-y-1">
+              <p className="text-sm font-medium" title={metric.description}>{metric.label}</p>
+              <p className="text-2xl font-bold">
+                {formatMetricValue(metric, metricValues[metric.key])}
+              </p>
+            </div>
+          ))}
           
           <div className="space-y-1">
             <p className="text-sm font-medium">Current Time</p>
@@ -82,6 +144,91 @@ export function StatisticsPanel() {
             </p>
           </div>
         </div>
+        
+        {completedProcesses > 0 && (
+          <div className="mt-6 space-y-4">
+            <h3 className="text-sm font-medium">Tail &amp; Fairness</h3>
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              <div className="lg:col-span-2 border rounded-md overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>P50</TableHead>
+                      <TableHead>P90</TableHead>
+                      <TableHead>P99</TableHead>
+                      <TableHead>Max</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {TAIL_ROWS.map(row => (
+                      <TableRow key={row.label}>
+                        <TableCell className="font-medium">{row.label}</TableCell>
+                        {row.keys.map(key => (
+                          <TableCell key={key}>{getMetric(key).format(metricValues[key])}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              
+              <div className="space-y-4">
+                {FAIRNESS_METRICS.map(metric => (
+                  <div key={metric.key} className="space-y-1">
+                    <p className="text-sm font-medium" title={metric.description}>{metric.label}</p>
+                    <p className="text-2xl font-bold">
+                      {formatMetricValue(metric, metricValues[metric.key])}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+        
+        {isRealtime && (
+          <div className="mt-6 space-y-4">
+            <h3 className="text-sm font-medium">Deadlines</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              {DEADLINE_METRICS.map(metric => (
+                <div key={metric.key} className="space-y-1">
+                  <p className="text-sm font-medium" title={metric.description}>{metric.label}</p>
+                  <p className="text-2xl font-bold">
+                    {formatMetricValue(metric, deadlineValues[metric.key])}
+                  </p>
+                </div>
+              ))}
+              
+              {schedulability && (['rm', 'edf'] as const).map(test => (
+                <div key={test} className="space-y-1">
+                  <p
+                    className="text-sm font-medium"
+                    title={test === 'rm'
+                      ? `Liu & Layland: U ≤ n(2^(1/n) − 1) = ${schedulability.rmBound.toFixed(3)}`
+                      : 'Liu & Layland: U ≤ 1'}
+                  >
+                    {test === 'rm' ? 'Rate Monotonic' : 'EDF'} Test
+                  </p>
+                  <p className={`text-2xl font-bold ${VERDICT_LABELS[schedulability[test]].className}`}>
+                    {VERDICT_LABELS[schedulability[test]].label}
+                  </p>
+                </div>
+              ))}
+            </div>
+            
+            {schedulability && (
+              <p className="text-sm text-muted-foreground">
+                {schedulability.taskCount} periodic tasks with utilization U = {schedulability.utilization.toFixed(3)}
+                {!schedulability.implicitDeadlines && ` and density ${schedulability.density.toFixed(3)}`}.
+                The Liu &amp; Layland bound for rate monotonic scheduling is {schedulability.rmBound.toFixed(3)}
+                {schedulability.implicitDeadlines
+                  ? '; above it the test is inconclusive.'
+                  : ', but it only applies when deadlines equal periods.'}
+              </p>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
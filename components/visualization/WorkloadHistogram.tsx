@@ -0,0 +1,53 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Process } from '@/lib/api';
+import { buildHistogram } from '@/lib/distributions';
+
+interface WorkloadHistogramProps {
+  processes: Process[];
+}
+
+// Fields of the workload whose spread is previewed
+const HISTOGRAM_FIELDS = [
+  { key: 'arrivalTime', name: 'Arrival Time', color: '#4f46e5' },
+  { key: 'burstTime', name: 'CPU Burst', color: '#10b981' },
+  { key: 'ioBurstTime', name: 'I/O Burst', color: '#f59e0b' },
+] as const;
+
+// Histograms of the generated workload, to check its shape before simulating
+export function WorkloadHistogram({ processes }: WorkloadHistogramProps) {
+  const histograms = useMemo(() => {
+    return HISTOGRAM_FIELDS.map(field => ({
+      ...field,
+      bins: buildHistogram(processes.map(p => Number(p[field.key] ?? 0)))
+    }));
+  }, [processes]);
+
+  if (processes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">Workload Preview</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {histograms.map(histogram => (
+          <div key={histogram.key}>
+            <p className="text-xs text-muted-foreground mb-1">{histogram.name}</p>
+            <ResponsiveContainer width="100%" height={140}>
+              <BarChart data={histogram.bins} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+                <YAxis allowDecimals={false} tick={{ fontSize: 10 }} />
+                <Tooltip formatter={(value: number) => [value, 'Processes']} />
+                <Bar dataKey="count" fill={histogram.color} isAnimationActive={false} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { AlgorithmParameter, ParameterValue, SimulationConfig } from './api';
+
+export type ParameterInputType = 'number' | 'boolean' | 'enum' | 'range' | 'text';
+
+// Map the type names used by the backend onto the inputs we can render
+export const getParameterInputType = (parameter: AlgorithmParameter): ParameterInputType => {
+  switch (parameter.type.toLowerCase()) {
+    case 'number':
+    case 'int':
+    case 'integer':
+    case 'float':
+      return 'number';
+    case 'bool':
+    case 'boolean':
+      return 'boolean';
+    case 'enum':
+    case 'select':
+      return parameter.options?.length ? 'enum' : 'text';
+    case 'range':
+    case 'slider':
+      return 'range';
+    default:
+      return 'text';
+  }
+};
+
+// Human readable label, e.g. "timeQuantum" -> "Time Quantum"
+export const getParameterLabel = (parameter: Pick<AlgorithmParameter, 'name' | 'label'>): string => {
+  if (parameter.label) return parameter.label;
+
+  const words = parameter.name
+    .replace(/_/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Default value of a parameter, falling back to a sensible value for its type
+export const getParameterDefault = (parameter: AlgorithmParameter): ParameterValue => {
+  if (parameter.defaultValue !== undefined && parameter.defaultValue !== null) {
+    return parameter.defaultValue;
+  }
+
+  switch (getParameterInputType(parameter)) {
+    case 'number':
+    case 'range':
+      return parameter.min ?? 0;
+    case 'boolean':
+      return false;
+    case 'enum':
+      return parameter.options?.[0] ?? '';
+    default:
+      return '';
+  }
+};
+
+// Config holding the default value of every parameter
+export const getParameterDefaults = (parameters: AlgorithmParameter[]): SimulationConfig => {
+  return Object.fromEntries(
+    parameters.map(parameter => [parameter.name, getParameterDefault(parameter)])
+  );
+};
+
+// Parse raw input into a parameter value, or explain why it is invalid
+export const parseParameterValue = (
+  parameter: AlgorithmParameter,
+  raw: string | boolean
+): { value?: ParameterValue; error?: string } => {
+  const inputType = getParameterInputType(parameter);
+
+  if (inputType === 'boolean') {
+    return { value: raw === true || raw === 'true' };
+  }
+
+  if (inputType === 'enum') {
+    const option = parameter.options?.find(o => String(o) === String(raw));
+    return option === undefined
+      ? { error: `Choose one of: ${parameter.options?.join(', ')}` }
+      : { value: option };
+  }
+
+  if (inputType === 'number' || inputType === 'range') {
+    if (String(raw).trim() === '') {
+      return { error: 'A value is required' };
+    }
+
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+      return { error: 'Must be a number' };
+    }
+    if (parameter.min !== undefined && value < parameter.min) {
+      return { error: `Must be at least ${parameter.min}` };
+    }
+    if (parameter.max !== undefined && value > parameter.max) {
+      return { error: `Must be at most ${parameter.max}` };
+    }
+    // Whole numbers are required for integer types or when stepping by whole units
+    const requiresInteger = ['int', 'integer'].includes(parameter.type.toLowerCase()) ||
+      (parameter.step !== undefined && Number.isInteger(parameter.step));
+    if (requiresInteger && !Number.isInteger(value)) {
+      return { error: 'Must be a whole number' };
+    }
+    return { value };
+  }
+
+  return { value: String(raw) };
+};
+
+// Short names used when labelling results, e.g. "RR (q=2)"
+const PARAMETER_ABBREVIATIONS: Record<string, string> = {
+  timeQuantum: 'q',
+  queueLevels: 'levels',
+  levelQuanta: 'quanta',
+  quantumMultiplier: 'mult',
+  boostInterval: 'boost',
+  seed: 'seed'
+};
+
+// Compact "name=value" list of the parameters in a config, in a stable order
+export const formatParameterSummary = (config: SimulationConfig): string => {
+  return Object.keys(config)
+    .filter(name => config[name] !== undefined)
+    .sort()
+    .map(name => {
+      const value = config[name];
+      const formatted = Array.isArray(value) ? value.join('/') : String(value);
+      return `${PARAMETER_ABBREVIATIONS[name] ?? name}=${formatted}`;
+    })
+    .join(', ');
+};
@@ -1,6 +1,62 @@
+import { LOCAL_ALGORITHMS, getLocalAlgorithmDescriptions } from './scheduler/algorithms';
+import { simulate } from './scheduler/engine';
+import { hasDispatchOverhead, isMultiCore } from './scheduler/smp';
+import { hasBurstSequence } from './scheduler/bursts';
+import { hasRealtimeTasks } from './scheduler/realtime';
+import {
+  generateRandomProcesses,
+  isUniformDistribution,
+  DistributionSettings,
+  LOCAL_PROCESS_PARAMETERS
+} from './scheduler/workload';
+
 // Use environment variable with fallback
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://wsl.localhost:8000';
 
+// Raised when the backend cannot be reached at all, in which case we fall back
+// to the in-browser scheduling engine
+class BackendUnreachableError extends Error {}
+
+// fetch() rejects with a TypeError when the request fails on the network. Only that
+// rejection is marked, so errors while handling a response still reach the UI.
+const fetchBackend = async (input: string, init?: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(input, init);
+  } catch (error) {
+    if (error instanceof TypeError) {
+      throw new BackendUnreachableError(error.message);
+    }
+    throw error;
+  }
+};
+
+const isNetworkError = (error: unknown): boolean => error instanceof BackendUnreachableError;
+
+// Algorithms reported by the backend, once fetched
+let backendAlgorithms: string[] = [];
+
+// Algorithms the backend does not know about always run in the browser
+export const isLocalOnlyAlgorithm = (algorithm: string): boolean => {
+  return backendAlgorithms.length > 0 && !backendAlgorithms.includes(algorithm);
+};
+
+// The backend models a single CPU burst per process on a single CPU that dispatches
+// for free. It ignores the seed of random scheduling, and releases a single job per
+// task whatever its period, deadline and WCET, so workloads and configs using
+// features beyond that need the in-browser engine as well
+export const requiresLocalEngine = (
+  algorithm: string,
+  processes: Process[],
+  config: SimulationConfig = {}
+): boolean => {
+  return isLocalOnlyAlgorithm(algorithm) ||
+    (algorithm === 'RANDOM' && config.seed !== undefined) ||
+    isMultiCore(config) ||
+    hasDispatchOverhead(config) ||
+    processes.some(hasBurstSequence) ||
+    hasRealtimeTasks(processes);
+};
+
 // Process interface
 export interface Process {
   id?: string;
@@ -9,12 +65,46 @@ export interface Process {
   burstTime: number;
   ioBurstTime?: number;
   priority?: number;
+  queueLevel?: number; // Feedback queue level, for multi-level algorithms
   remainingTime?: number;
   state?: 'new' | 'ready' | 'running' | 'blocked' | 'terminated';
   waitingTime?: number;
   turnaroundTime?: number;
   responseTime?: number;
   completionTime?: number;
+  // Real-time task model: a periodic task releases a job every period, each due
+  // a relative deadline after its release. WCET is the worst-case execution time
+  // assumed by schedulability tests; the burst time is what each job actually runs.
+  period?: number;
+  deadline?: number;
+  wcet?: number;
+  missedDeadlines?: number[]; // Absolute deadlines of jobs that missed them
+  maxLateness?: number; // Largest completion time minus deadline over all jobs
+  affinity?: number[]; // Cores the process may run on (0-based); unset allows every core
+  // Alternating CPU and I/O durations starting and ending with CPU; burstTime and
+  // ioBurstTime then hold their totals. Unset means a single CPU burst.
+  bursts?: number[];
+  // Device of each I/O burst in order ('disk', 'network' or 'keyboard'); unset ones use the disk
+  ioDevices?: string[];
+  burstIndex?: number; // Position in the burst sequence of a process with several bursts
+  ioRemainingTime?: number; // Time left in the current I/O burst while blocked
+  ioDevice?: string; // Device the process is blocked on
+}
+
+// Value of a single algorithm parameter
+export type ParameterValue = string | number | boolean;
+
+// Algorithm Parameter interface
+export interface AlgorithmParameter {
+  name: string;
+  description: string;
+  type: string; // 'number', 'boolean', 'enum' or 'range'; other types render as text
+  defaultValue?: ParameterValue | null;
+  label?: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: (string | number)[]; // Allowed values for 'enum' parameters
 }
 
 // Algorithm Description interface
@@ -22,12 +112,7 @@ export interface AlgorithmDescription {
   name: string;
   description: string;
   type: 'preemptive' | 'non-preemptive';
-  parameters: {
-    name: string;
-    description: string;
-    type: string;
-    defaultValue?: string | number | boolean | null;
-  }[];
+  parameters: AlgorithmParameter[];
 }
 
 // Parameter Info interface
@@ -39,20 +124,40 @@ export interface ParameterInfo {
 // Simulation Config interface
 export interface SimulationConfig {
   timeQuantum?: number;
+  queueLevels?: number; // MLFQ: number of feedback queues
+  levelQuanta?: number[]; // MLFQ: explicit quantum per level, top level first
+  quantumMultiplier?: number; // MLFQ: quantum growth factor per level
+  boostInterval?: number; // MLFQ: priority boost period (0 disables it)
+  horizon?: number; // Real-time: periodic tasks release no jobs at or after this time
+  cores?: number; // Number of CPU cores (1 when unset)
+  queueMode?: 'global' | 'per-core'; // Multi-core: shared ready queue or one run queue per core
+  loadBalanceInterval?: number; // Multi-core: time between load balancing passes (0 disables it)
+  contextSwitchCost?: number; // Time units lost whenever a core switches to a different process
+  schedulerCost?: number; // Time units the scheduler takes every time it picks a process
+  [parameter: string]: ParameterValue | number[] | undefined; // Parameters of other algorithms
   showDetailedMetrics?: boolean; // Whether to include detailed metrics in updates
 }
 
 // Fetch available algorithms
 export const fetchAlgorithms = async (): Promise<string[]> => {
   try {
-    const response = await fetch(`${API_URL}/api/scheduler/algorithms`);
+    const response = await fetchBackend(`${API_URL}/api/scheduler/algorithms`);
     const data = await response.json();
     
     if (data.status === 'success') {
-      return data.algorithms;
+      backendAlgorithms = data.algorithms;
+      // Offer in-browser algorithms the backend does not implement as well
+      return [
+        ...data.algorithms,
+        ...LOCAL_ALGORITHMS.filter(algorithm => !data.algorithms.includes(algorithm))
+      ];
     }
     throw new Error('Failed to fetch algorithms');
   } catch (error) {
+    if (isNetworkError(error)) {
+      console.warn('Backend unreachable, using in-browser algorithms');
+      return LOCAL_ALGORITHMS;
+    }
     console.error('Error fetching algorithms:', error);
     throw error;
   }
@@ -61,14 +166,27 @@ export const fetchAlgorithms = async (): Promise<string[]> => {
 // Fetch algorithm descriptions
 export const fetchAlgorithmDescriptions = async (): Promise<Record<string, AlgorithmDescription>> => {
   try {
-    const response = await fetch(`${API_URL}/api/algorithms/descriptions`);
+    const response = await fetchBackend(`${API_URL}/api/algorithms/descriptions`);
     const data = await response.json();
     
     if (data.status === 'success') {
-      return data.descriptions;
+      const localDescriptions = getLocalAlgorithmDescriptions();
+      const descriptions: Record<string, AlgorithmDescription> = { ...localDescriptions };
+      Object.entries(data.descriptions as Record<string, AlgorithmDescription>).forEach(([key, description]) => {
+        // Keep the in-browser parameter definitions when the backend does not list any
+        const parameters = description.parameters?.length
+          ? description.parameters
+          : localDescriptions[key]?.parameters ?? [];
+        descriptions[key] = { ...description, parameters };
+      });
+      return descriptions;
     }
     throw new Error('Failed to fetch algorithm descriptions');
   } catch (error) {
+    if (isNetworkError(error)) {
+      console.warn('Backend unreachable, using in-browser algorithm descriptions');
+      return getLocalAlgorithmDescriptions();
+    }
     console.error('Error fetching algorithm descriptions:', error);
     throw error;
   }
@@ -80,8 +198,25 @@ export const fetchRandomProcesses = async (
   maxBurstTime: number = 10,
   maxIoBurstTime: number = 5,
   maxPriority: number = 10,
-  maxArrivalTime: number = 10
+  maxArrivalTime: number = 10,
+  seed?: number,
+  distributions?: Partial<DistributionSettings>
 ): Promise<Process[]> => {
+  // Seeded workloads are always generated in the browser, so a seed gives the
+  // same processes whether or not the backend is reachable. The backend only
+  // knows uniform distributions.
+  if (seed !== undefined || !isUniformDistribution(distributions)) {
+    return generateRandomProcesses(
+      count,
+      maxBurstTime,
+      maxIoBurstTime,
+      maxPriority,
+      maxArrivalTime,
+      seed,
+      distributions
+    );
+  }
+  
   try {
     const url = new URL(`${API_URL}/api/processes/random`);
     url.searchParams.append('count', count.toString());
@@ -90,7 +225,7 @@ export const fetchRandomProcesses = async (
     url.searchParams.append('maxPriority', maxPriority.toString());
     url.searchParams.append('maxArrivalTime', maxArrivalTime.toString());
     
-    const response = await fetch(url.toString());
+    const response = await fetchBackend(url.toString());
     const data = await response.json();
     
     if (data.status === 'success') {
@@ -98,6 +233,10 @@ export const fetchRandomProcesses = async (
     }
     throw new Error('Failed to fetch random processes');
   } catch (error) {
+    if (isNetworkError(error)) {
+      console.warn('Backend unreachable, generating random processes in the browser');
+      return generateRandomProcesses(count, maxBurstTime, maxIoBurstTime, maxPriority, maxArrivalTime);
+    }
     console.error('Error fetching random processes:', error);
     throw error;
   }
@@ -106,7 +245,7 @@ export const fetchRandomProcesses = async (
 // Fetch process parameter descriptions
 export const fetchProcessParameters = async (): Promise<Record<string, ParameterInfo>> => {
   try {
-    const response = await fetch(`${API_URL}/api/processes/parameters`);
+    const response = await fetchBackend(`${API_URL}/api/processes/parameters`);
     const data = await response.json();
     
     if (data.status === 'success') {
@@ -114,6 +253,9 @@ export const fetchProcessParameters = async (): Promise<Record<string, Parameter
     }
     throw new Error('Failed to fetch process parameters');
   } catch (error) {
+    if (isNetworkError(error)) {
+      return LOCAL_PROCESS_PARAMETERS;
+    }
     console.error('Error fetching process parameters:', error);
     throw error;
   }
@@ -125,6 +267,10 @@ export const runSimulation = async (
   processes: Process[],
   config: SimulationConfig = {}
 ) => {
+  if (requiresLocalEngine(algorithm, processes, config)) {
+    return simulate(algorithm, processes, config);
+  }
+  
   try {
     // Create a simple representation of each process with only the essential properties
     // This prevents circular references that cause JSON.stringify to fail
@@ -134,11 +280,17 @@ export const runSimulation = async (
       arrivalTime: p.arrivalTime,
       burstTime: p.burstTime,
       ioBurstTime: p.ioBurstTime,
-      priority: p.priority
+      priority: p.priority,
+      period: p.period,
+      deadline: p.deadline,
+      wcet: p.wcet,
+      affinity: p.affinity,
+      bursts: p.bursts,
+      ioDevices: p.ioDevices
       // Exclude any computed or reference properties
     }));
 
-    const response = await fetch(`${API_URL}/api/scheduler/simulate`, {
+    const response = await fetchBackend(`${API_URL}/api/scheduler/simulate`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -163,13 +315,13 @@ export const runSimulation = async (
     }
     throw new Error(data.message || 'Failed to run simulation');
   } catch (error) {
-    console.error('Error running simulation:', error);
-    
-    // Provide a more useful error message for network errors
-    if (error instanceof TypeError && error.message === 'Failed to fetch') {
-      throw new Error(`Network error: Unable to connect to the backend server at ${API_URL}. Please check that the server is running.`);
+    // Run the simulation in the browser when the backend is down
+    if (isNetworkError(error)) {
+      console.warn(`Backend unreachable at ${API_URL}, running simulation in the browser`);
+      return simulate(algorithm, processes, config);
     }
     
+    console.error('Error running simulation:', error);
     throw error;
   }
 };
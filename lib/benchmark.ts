@@ -0,0 +1,140 @@
+import { runSimulation, AlgorithmDescription, SimulationConfig } from './api';
+import { getParameterDefaults } from './algorithm-parameters';
+import { withCpuConfig } from './scheduler/smp';
+import { AlgorithmResult, Process } from './store/algorithm-results';
+import { generateId } from './utils';
+
+// One simulation to run as part of a benchmark
+export interface BenchmarkRun {
+  algorithm: string;
+  config: SimulationConfig;
+}
+
+export interface BenchmarkProgress {
+  completed: number;
+  total: number;
+  // Run currently executing, or null once the benchmark has finished
+  current: BenchmarkRun | null;
+}
+
+export interface BenchmarkOptions {
+  // Aborting stops the benchmark before the next run starts
+  signal?: AbortSignal;
+  onProgress?: (progress: BenchmarkProgress) => void;
+  // Called as soon as each run finishes, so results can be shown while the rest run
+  onResult?: (result: AlgorithmResult) => void;
+  // Seed the workload was generated from, recorded on every result
+  workloadSeed?: number;
+}
+
+export interface BenchmarkOutcome {
+  results: AlgorithmResult[];
+  errors: Array<{ run: BenchmarkRun; message: string }>;
+  cancelled: boolean;
+}
+
+// One run per algorithm, each with the parameters last chosen for it or its defaults
+// and the active CPU and device settings, so every algorithm runs on the same machine
+export const buildAlgorithmRuns = (
+  algorithms: string[],
+  descriptions: Record<string, AlgorithmDescription>,
+  algorithmConfigs: Record<string, SimulationConfig>,
+  cpuConfig: SimulationConfig
+): BenchmarkRun[] => {
+  return algorithms.map(algorithm => ({
+    algorithm,
+    config: withCpuConfig({
+      ...getParameterDefaults(descriptions[algorithm]?.parameters ?? []),
+      ...algorithmConfigs[algorithm]
+    }, cpuConfig)
+  }));
+};
+
+// Shape shared by backend and in-browser simulation responses
+interface SimulationResponse {
+  results?: Process[];
+  statistics?: Record<string, string | number | undefined>;
+}
+
+// Convert a simulation response into a result for the comparison store
+export const toAlgorithmResult = (
+  algorithm: string,
+  response: SimulationResponse,
+  config: SimulationConfig,
+  workload: Process[],
+  seed?: number
+): AlgorithmResult => {
+  const statistics = {
+    totalProcesses: Number(response.statistics?.totalProcesses || 0),
+    totalTime: Number(response.statistics?.totalTime || 0),
+    cpuUtilization: response.statistics?.cpuUtilization?.toString() || '0',
+    avgWaitingTime: response.statistics?.avgWaitingTime?.toString() || '0',
+    avgTurnaroundTime: response.statistics?.avgTurnaroundTime?.toString() || '0',
+    avgResponseTime: response.statistics?.avgResponseTime?.toString() || '0',
+    throughput: response.statistics?.throughput?.toString() || '0',
+    contextSwitches: Number(response.statistics?.contextSwitches || 0),
+    avgArrivalsPerStep: response.statistics?.avgArrivalsPerStep?.toString() || '0',
+    migrations: response.statistics?.migrations !== undefined ? Number(response.statistics.migrations) : undefined,
+    loadImbalance: response.statistics?.loadImbalance?.toString(),
+    overheadTime: response.statistics?.overheadTime !== undefined ? Number(response.statistics.overheadTime) : undefined,
+    overheadPercentage: response.statistics?.overheadPercentage?.toString(),
+    effectiveCpuUtilization: response.statistics?.effectiveCpuUtilization?.toString()
+  };
+
+  return {
+    id: generateId(),
+    algorithm,
+    processes: Array.isArray(response.results) ? response.results : [],
+    statistics,
+    config,
+    workload,
+    seed,
+    timestamp: Date.now()
+  };
+};
+
+// Run simulations one after another on the same workload. A failing run is
+// recorded and skipped so one unsupported algorithm does not stop the others.
+export const runBenchmark = async (
+  runs: BenchmarkRun[],
+  workload: Process[],
+  { signal, onProgress, onResult, workloadSeed }: BenchmarkOptions = {}
+): Promise<BenchmarkOutcome> => {
+  const outcome: BenchmarkOutcome = { results: [], errors: [], cancelled: false };
+
+  for (let i = 0; i < runs.length; i++) {
+    // In-browser runs are synchronous; yield so progress renders and cancel clicks land
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    if (signal?.aborted) {
+      outcome.cancelled = true;
+      break;
+    }
+
+    const run = runs[i];
+    onProgress?.({ completed: i, total: runs.length, current: run });
+
+    try {
+      const response = await runSimulation(run.algorithm, workload, run.config);
+
+      // Discard a run that finished after the benchmark was cancelled
+      if (signal?.aborted) {
+        outcome.cancelled = true;
+        break;
+      }
+
+      const result = toAlgorithmResult(run.algorithm, response, run.config, workload, workloadSeed);
+      outcome.results.push(result);
+      onResult?.(result);
+    } catch (error) {
+      console.error(`Benchmark run of ${run.algorithm} failed:`, error);
+      outcome.errors.push({
+        run,
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  onProgress?.({ completed: outcome.results.length + outcome.errors.length, total: runs.length, current: null });
+  return outcome;
+};
@@ -0,0 +1,61 @@
+// Sampling from the distributions offered by the workload generator, and
+// histogram binning for previewing generated workloads
+
+// Exponential sample with the given mean (inverse transform)
+export const sampleExponential = (random: () => number, mean: number): number => {
+  // 1 - u is in (0, 1], so the log is finite
+  return -mean * Math.log(1 - random());
+};
+
+// Normal sample (Box-Muller transform)
+export const sampleNormal = (random: () => number, mean: number, stdDev: number): number => {
+  const u1 = 1 - random();
+  const u2 = random();
+  return mean + stdDev * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+// Random integer in [min, max]
+export const sampleUniformInt = (random: () => number, min: number, max: number): number => {
+  return min + Math.floor(random() * (Math.max(min, max) - min + 1));
+};
+
+// Round a sample to a whole number within [min, max]
+export const clampToInt = (value: number, min: number, max: number): number => {
+  return Math.min(Math.max(Math.round(value), min), Math.max(min, max));
+};
+
+export interface HistogramBin {
+  // Inclusive lower and exclusive upper bound (the last bin includes its upper bound)
+  start: number;
+  end: number;
+  label: string;
+  count: number;
+}
+
+// Count whole-number values into at most maxBins bins of equal integer width
+export const buildHistogram = (values: number[], maxBins: number = 10): HistogramBin[] => {
+  if (values.length === 0) return [];
+
+  const min = Math.floor(Math.min(...values));
+  const max = Math.floor(Math.max(...values));
+  const width = Math.max(1, Math.ceil((max - min + 1) / maxBins));
+  const binCount = Math.ceil((max - min + 1) / width);
+
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => {
+    const start = min + i * width;
+    const end = start + width;
+    return {
+      start,
+      end,
+      label: width === 1 ? String(start) : `${start}-${end - 1}`,
+      count: 0
+    };
+  });
+
+  values.forEach(value => {
+    const index = Math.min(Math.floor((Math.floor(value) - min) / width), binCount - 1);
+    bins[index].count++;
+  });
+
+  return bins;
+};
@@ -0,0 +1,111 @@
+import { fetchRandomProcesses } from './api';
+import { BenchmarkRun, runBenchmark } from './benchmark';
+import { AlgorithmResult, Process } from './store/algorithm-results';
+import { GeneratorSettings } from './store/simulation-state';
+import { generateId } from './utils';
+import { generateSeed, MAX_SEED } from './random';
+
+// Upper bound on the number of workloads in one experiment
+export const MAX_EXPERIMENT_WORKLOADS = 200;
+
+export interface ExperimentProgress {
+  completed: number;
+  total: number;
+  workload: number;
+  algorithm: string | null;
+}
+
+export interface ExperimentOptions {
+  // Aborting stops the experiment before the next run starts
+  signal?: AbortSignal;
+  onProgress?: (progress: ExperimentProgress) => void;
+}
+
+export interface ExperimentOutcome {
+  // Results per algorithm, one per workload, in workload order. Workloads where
+  // any algorithm failed are dropped for every algorithm so samples stay paired.
+  samples: Record<string, AlgorithmResult[]>;
+  workloads: number;
+  failedWorkloads: number;
+  cancelled: boolean;
+  // Workload i is generated from baseSeed + i, so the whole experiment can be repeated
+  baseSeed: number;
+}
+
+// Seed of the workload at the given position in an experiment
+export const getWorkloadSeed = (baseSeed: number, index: number): number => {
+  return (baseSeed + index) % (MAX_SEED + 1);
+};
+
+// Draw `workloadCount` random workloads and run every algorithm on each of them.
+// Uses the seed from the settings when there is one, otherwise a fresh one.
+export const runMonteCarloExperiment = async (
+  runs: BenchmarkRun[],
+  workloadCount: number,
+  settings: GeneratorSettings,
+  { signal, onProgress }: ExperimentOptions = {}
+): Promise<ExperimentOutcome> => {
+  const outcome: ExperimentOutcome = {
+    samples: Object.fromEntries(runs.map(run => [run.algorithm, []])),
+    workloads: 0,
+    failedWorkloads: 0,
+    cancelled: false,
+    baseSeed: settings.seed ?? generateSeed()
+  };
+  const total = runs.length * workloadCount;
+
+  for (let w = 0; w < workloadCount; w++) {
+    if (signal?.aborted) {
+      outcome.cancelled = true;
+      break;
+    }
+
+    onProgress?.({ completed: w * runs.length, total, workload: w + 1, algorithm: null });
+
+    const workloadSeed = getWorkloadSeed(outcome.baseSeed, w);
+    let workload: Process[];
+    try {
+      const generated = await fetchRandomProcesses(
+        settings.processCount,
+        settings.maxBurstTime,
+        settings.maxIoBurstTime,
+        settings.maxPriority,
+        settings.maxArrivalTime,
+        workloadSeed,
+        settings
+      );
+      workload = generated.map(process => ({ ...process, id: process.id || generateId() }));
+    } catch (error) {
+      console.error(`Failed to generate workload ${w + 1}:`, error);
+      outcome.failedWorkloads++;
+      continue;
+    }
+
+    const benchmark = await runBenchmark(runs, workload, {
+      signal,
+      workloadSeed,
+      onProgress: progress => onProgress?.({
+        completed: w * runs.length + progress.completed,
+        total,
+        workload: w + 1,
+        algorithm: progress.current?.algorithm ?? null
+      })
+    });
+
+    if (benchmark.cancelled) {
+      outcome.cancelled = true;
+      break;
+    }
+    if (benchmark.errors.length > 0) {
+      outcome.failedWorkloads++;
+      continue;
+    }
+
+    benchmark.results.forEach(result => {
+      outcome.samples[result.algorithm].push(result);
+    });
+    outcome.workloads++;
+  }
+
+  return outcome;
+};
@@ -0,0 +1,123 @@
+import { AlgorithmResult } from './store/algorithm-results';
+
+const DB_NAME = 'process-scheduler-simulator';
+const RUNS_STORE = 'runs';
+
+// Bump when object stores or indexes change, and add a step to upgradeDatabase
+const DB_VERSION = 1;
+
+// Bump when the shape of StoredRun changes, and add a step to migrateRun
+export const RUN_SCHEMA_VERSION = 2;
+
+// A simulation run saved in the browser
+export interface StoredRun {
+  id: string;
+  schemaVersion: number;
+  name: string;
+  tags: string[];
+  createdAt: number;
+  result: AlgorithmResult;
+}
+
+export const isHistoryAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+// Create or upgrade object stores, one step per database version
+const upgradeDatabase = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const runs = db.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+    runs.createIndex('createdAt', 'createdAt');
+    runs.createIndex('algorithm', 'result.algorithm');
+  }
+};
+
+// Bring a run saved by an older version of the app up to date
+const migrateRun = (run: StoredRun): StoredRun => {
+  const migrated = { ...run };
+
+  if (!migrated.schemaVersion || migrated.schemaVersion < 1) {
+    migrated.tags = migrated.tags ?? [];
+    migrated.name = migrated.name ?? migrated.result.algorithm;
+    migrated.result = {
+      ...migrated.result,
+      config: migrated.result.config ?? {},
+      workload: migrated.result.workload ?? []
+    };
+    migrated.schemaVersion = 1;
+  }
+
+  // Context switches were optional before; older backends didn't report them
+  if (migrated.schemaVersion < 2) {
+    migrated.result = {
+      ...migrated.result,
+      statistics: {
+        ...migrated.result.statistics,
+        contextSwitches: Number(migrated.result.statistics.contextSwitches ?? 0)
+      }
+    };
+    migrated.schemaVersion = 2;
+  }
+
+  return migrated;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!isHistoryAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        upgradeDatabase(request.result, event.oldVersion);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open run history database'));
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+// Run a single request against the runs store
+const withRunsStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(RUNS_STORE, mode);
+    const request = operation(transaction.objectStore(RUNS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+  });
+};
+
+// All saved runs, newest first
+export const listRuns = async (): Promise<StoredRun[]> => {
+  const runs = await withRunsStore<StoredRun[]>('readonly', store => store.getAll());
+  return runs.map(migrateRun).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveRun = async (run: StoredRun): Promise<void> => {
+  await withRunsStore('readwrite', store => store.put(run));
+};
+
+export const deleteRun = async (id: string): Promise<void> => {
+  await withRunsStore('readwrite', store => store.delete(id));
+};
+
+// Wrap a result as a run ready to be saved
+export const createStoredRun = (result: AlgorithmResult, name = result.algorithm): StoredRun => ({
+  id: result.id,
+  schemaVersion: RUN_SCHEMA_VERSION,
+  name,
+  tags: [],
+  createdAt: result.timestamp,
+  result
+});
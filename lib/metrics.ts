@@ -0,0 +1,273 @@
+import { AlgorithmStatistics, Process } from './store/algorithm-results';
+import { TailMetrics, computeTailMetrics } from './process-results';
+import { summarizeDeadlines } from './scheduler/realtime';
+import { formatTime } from './utils';
+
+// Single source of truth for the metrics a run is judged by. Views, scores and
+// exports read labels, units, directions and values from here, so a new metric
+// only needs a definition below.
+
+export type MetricKey =
+  | 'cpuUtilization'
+  | 'avgWaitingTime'
+  | 'avgTurnaroundTime'
+  | 'avgResponseTime'
+  | 'throughput'
+  | 'contextSwitches'
+  | 'totalTime'
+  | keyof TailMetrics
+  | 'deadlineMisses'
+  | 'maxLateness'
+  | 'migrations'
+  | 'loadImbalance'
+  | 'overheadTime'
+  | 'overheadPercentage'
+  | 'effectiveCpuUtilization';
+
+export type MetricDirection = 'lower-is-better' | 'higher-is-better';
+
+// Summary, multi-core and overhead metrics come straight from the run statistics,
+// tail and deadline metrics from its processes
+export type MetricGroup = 'summary' | 'tail' | 'deadline' | 'multicore' | 'overhead';
+
+// What a metric is read from: a stored result, or the statistics of the simulation on screen
+export interface MetricSource {
+  statistics: Partial<Record<keyof AlgorithmStatistics, string | number | undefined>>;
+  processes: Process[];
+}
+
+export interface MetricDefinition {
+  key: MetricKey;
+  label: string;
+  unit?: string;
+  description: string;
+  direction: MetricDirection;
+  group: MetricGroup;
+  format: (value: number) => string;
+  // Numeric value of the metric; 0 when the source doesn't report it
+  parse: (source: MetricSource) => number;
+}
+
+const toNumber = (value: string | number | undefined): number => {
+  const numValue = typeof value === 'string' ? parseFloat(value) : Number(value);
+  return Number.isFinite(numValue) ? numValue : 0;
+};
+
+// Reads a field of the run statistics, which the backend reports as strings
+const statistic = (key: keyof AlgorithmStatistics) => (source: MetricSource) => toNumber(source.statistics[key]);
+
+// Tail metrics of the same processes are shared by all tail metric definitions
+const tailMetricsCache = new WeakMap<Process[], TailMetrics>();
+const tailMetric = (key: keyof TailMetrics) => (source: MetricSource) => {
+  let tailMetrics = tailMetricsCache.get(source.processes);
+  if (!tailMetrics) {
+    tailMetrics = computeTailMetrics(source.processes);
+    tailMetricsCache.set(source.processes, tailMetrics);
+  }
+  return tailMetrics[key];
+};
+
+const formatCount = (value: number) => Math.round(value).toString();
+const formatRatio = (value: number) => value.toFixed(3);
+
+const TAIL_TIME_METRICS: MetricDefinition[] = (['Waiting', 'Turnaround', 'Response'] as const).flatMap(measure => [
+  { key: `p50${measure}Time` as const, label: `P50 ${measure}`, description: `Median ${measure.toLowerCase()} time` },
+  { key: `p90${measure}Time` as const, label: `P90 ${measure}`, description: `${measure} time that 90% of processes stay within` },
+  { key: `p99${measure}Time` as const, label: `P99 ${measure}`, description: `${measure} time that 99% of processes stay within` },
+  { key: `max${measure}Time` as const, label: `Max ${measure}`, description: `Longest ${measure.toLowerCase()} time of any process` },
+].map(metric => ({
+  ...metric,
+  unit: 'ms',
+  direction: 'lower-is-better' as const,
+  group: 'tail' as const,
+  format: formatTime,
+  parse: tailMetric(metric.key)
+})));
+
+export const METRICS: MetricDefinition[] = [
+  {
+    key: 'cpuUtilization',
+    label: 'CPU Utilization',
+    unit: '%',
+    description: 'Percentage of time the CPU is actively processing',
+    direction: 'higher-is-better',
+    group: 'summary',
+    format: formatTime,
+    parse: statistic('cpuUtilization')
+  },
+  {
+    key: 'avgWaitingTime',
+    label: 'Avg Waiting Time',
+    unit: 'ms',
+    description: 'Average time processes spend in the ready queue or being dispatched',
+    direction: 'lower-is-better',
+    group: 'summary',
+    format: formatTime,
+    parse: statistic('avgWaitingTime')
+  },
+  {
+    key: 'avgTurnaroundTime',
+    label: 'Avg Turnaround Time',
+    unit: 'ms',
+    description: 'Average time from process arrival to completion',
+    direction: 'lower-is-better',
+    group: 'summary',
+    format: formatTime,
+    parse: statistic('avgTurnaroundTime')
+  },
+  {
+    key: 'avgResponseTime',
+    label: 'Avg Response Time',
+    unit: 'ms',
+    description: 'Average time from arrival to first CPU execution',
+    direction: 'lower-is-better',
+    group: 'summary',
+    format: formatTime,
+    parse: statistic('avgResponseTime')
+  },
+  {
+    key: 'throughput',
+    label: 'Throughput',
+    unit: 'proc/ms',
+    description: 'Number of processes completed per unit time',
+    direction: 'higher-is-better',
+    group: 'summary',
+    format: formatRatio,
+    parse: statistic('throughput')
+  },
+  {
+    key: 'contextSwitches',
+    label: 'Context Switches',
+    description: 'Number of times the CPU switched from one process to another',
+    direction: 'lower-is-better',
+    group: 'summary',
+    format: formatCount,
+    parse: statistic('contextSwitches')
+  },
+  {
+    key: 'totalTime',
+    label: 'Makespan',
+    unit: 'ms',
+    description: 'Time until the last process completed',
+    direction: 'lower-is-better',
+    group: 'summary',
+    format: formatCount,
+    parse: statistic('totalTime')
+  },
+  ...TAIL_TIME_METRICS,
+  {
+    key: 'normalizedTurnaroundStdDev',
+    label: 'Norm. TAT Std Dev',
+    description: 'Standard deviation of turnaround time divided by burst time',
+    direction: 'lower-is-better',
+    group: 'tail',
+    format: formatTime,
+    parse: tailMetric('normalizedTurnaroundStdDev')
+  },
+  {
+    key: 'jainFairnessIndex',
+    label: 'Jain Fairness',
+    description: "Jain's fairness index over normalized turnaround; 1 means every process was slowed down equally",
+    direction: 'higher-is-better',
+    group: 'tail',
+    format: formatRatio,
+    parse: tailMetric('jainFairnessIndex')
+  },
+  {
+    key: 'deadlineMisses',
+    label: 'Deadline Misses',
+    description: 'Number of jobs still unfinished when their deadline passed',
+    direction: 'lower-is-better',
+    group: 'deadline',
+    format: formatCount,
+    parse: source => summarizeDeadlines(source.processes).deadlineMisses
+  },
+  {
+    key: 'maxLateness',
+    label: 'Max Lateness',
+    unit: 'ms',
+    description: 'Largest completion time minus deadline of any job; negative when every job finished early',
+    direction: 'lower-is-better',
+    group: 'deadline',
+    format: formatCount,
+    parse: source => summarizeDeadlines(source.processes).maxLateness
+  },
+  {
+    key: 'migrations',
+    label: 'Migrations',
+    description: 'Number of times a process was dispatched on a different core than it last ran on',
+    direction: 'lower-is-better',
+    group: 'multicore',
+    format: formatCount,
+    parse: statistic('migrations')
+  },
+  {
+    key: 'loadImbalance',
+    label: 'Load Imbalance',
+    unit: '%',
+    description: 'How much longer the busiest core worked than the average core',
+    direction: 'lower-is-better',
+    group: 'multicore',
+    format: formatTime,
+    parse: statistic('loadImbalance')
+  },
+  {
+    key: 'overheadTime',
+    label: 'Overhead Time',
+    unit: 'ms',
+    description: 'CPU time spent running the scheduler and switching context instead of running processes',
+    direction: 'lower-is-better',
+    group: 'overhead',
+    format: formatCount,
+    parse: statistic('overheadTime')
+  },
+  {
+    key: 'overheadPercentage',
+    label: 'Switching Overhead',
+    unit: '%',
+    description: 'Share of CPU time lost to scheduling and context switches',
+    direction: 'lower-is-better',
+    group: 'overhead',
+    format: formatTime,
+    parse: statistic('overheadPercentage')
+  },
+  {
+    key: 'effectiveCpuUtilization',
+    label: 'Effective Utilization',
+    unit: '%',
+    description: 'Percentage of time the CPU runs processes, not counting dispatch overhead',
+    direction: 'higher-is-better',
+    group: 'overhead',
+    format: formatTime,
+    parse: statistic('effectiveCpuUtilization')
+  },
+];
+
+const METRICS_BY_KEY = Object.fromEntries(METRICS.map(metric => [metric.key, metric])) as Record<MetricKey, MetricDefinition>;
+
+export const getMetric = (key: MetricKey): MetricDefinition => METRICS_BY_KEY[key];
+
+export const getMetrics = (keys: MetricKey[]): MetricDefinition[] => keys.map(getMetric);
+
+export const getMetricsByGroup = (group: MetricGroup): MetricDefinition[] => {
+  return METRICS.filter(metric => metric.group === group);
+};
+
+export const isLowerBetter = (metric: MetricDefinition): boolean => metric.direction === 'lower-is-better';
+
+// Formatted value with its unit, e.g. "12.50 ms" or "87.20%"
+export const formatMetricValue = (metric: MetricDefinition, value: number): string => {
+  const formatted = metric.format(value);
+  if (!metric.unit) return formatted;
+  return metric.unit === '%' ? `${formatted}%` : `${formatted} ${metric.unit}`;
+};
+
+// Label with the unit, e.g. "Avg Waiting Time (ms)"
+export const getMetricHeader = (metric: MetricDefinition): string => {
+  return metric.unit ? `${metric.label} (${metric.unit})` : metric.label;
+};
+
+// Values of the given metrics, keyed by metric
+export const readMetrics = (source: MetricSource, metrics: MetricDefinition[] = METRICS): Record<MetricKey, number> => {
+  return Object.fromEntries(metrics.map(metric => [metric.key, metric.parse(source)])) as Record<MetricKey, number>;
+};
@@ -0,0 +1,116 @@
+import { Process } from './store/algorithm-results';
+import { jainFairnessIndex, mean, percentile, standardDeviation } from './statistics';
+
+// Completed process with the metrics shown in the per-process table
+export interface ProcessResultRow {
+  id: string;
+  name: string;
+  arrivalTime: number;
+  burstTime: number;
+  completionTime: number;
+  waitingTime: number;
+  turnaroundTime: number;
+  responseTime: number;
+  // Turnaround divided by CPU burst; 1 means the process never waited
+  normalizedTurnaround: number;
+}
+
+export type ProcessResultKey = Exclude<keyof ProcessResultRow, 'id'>;
+
+// Metrics checked for outliers; for all of them higher is worse
+export const OUTLIER_METRICS: ProcessResultKey[] = [
+  'waitingTime',
+  'turnaroundTime',
+  'responseTime',
+  'normalizedTurnaround'
+];
+
+// Distance from the mean, in standard deviations, beyond which a value is an outlier
+export const OUTLIER_Z_SCORE = 1.5;
+
+export type OutlierDirection = 'high' | 'low';
+
+export const buildProcessResultRows = (processes: Process[]): ProcessResultRow[] => {
+  return processes.map(process => {
+    const turnaroundTime = process.turnaroundTime ?? 0;
+    return {
+      id: process.id,
+      name: process.name,
+      arrivalTime: process.arrivalTime,
+      burstTime: process.burstTime,
+      completionTime: process.completionTime ?? 0,
+      waitingTime: process.waitingTime ?? 0,
+      turnaroundTime,
+      responseTime: process.responseTime ?? 0,
+      normalizedTurnaround: process.burstTime > 0 ? turnaroundTime / process.burstTime : 0
+    };
+  });
+};
+
+// Rows whose value of the metric is far above or below the mean of all rows
+export const findOutliers = (
+  rows: ProcessResultRow[],
+  key: ProcessResultKey
+): Record<string, OutlierDirection> => {
+  const values = rows.map(row => Number(row[key]));
+  const average = mean(values);
+  const stdDev = standardDeviation(values);
+  if (!(stdDev > 0)) return {};
+
+  const outliers: Record<string, OutlierDirection> = {};
+  rows.forEach((row, index) => {
+    const z = (values[index] - average) / stdDev;
+    if (z >= OUTLIER_Z_SCORE) {
+      outliers[row.id] = 'high';
+    } else if (z <= -OUTLIER_Z_SCORE) {
+      outliers[row.id] = 'low';
+    }
+  });
+  return outliers;
+};
+
+// Tail and fairness metrics of one run, which the averages hide
+export interface TailMetrics {
+  p50WaitingTime: number;
+  p90WaitingTime: number;
+  p99WaitingTime: number;
+  maxWaitingTime: number;
+  p50TurnaroundTime: number;
+  p90TurnaroundTime: number;
+  p99TurnaroundTime: number;
+  maxTurnaroundTime: number;
+  p50ResponseTime: number;
+  p90ResponseTime: number;
+  p99ResponseTime: number;
+  maxResponseTime: number;
+  // Spread and fairness of turnaround relative to each process's burst
+  normalizedTurnaroundStdDev: number;
+  jainFairnessIndex: number;
+}
+
+export const computeTailMetrics = (processes: Process[]): TailMetrics => {
+  const rows = buildProcessResultRows(processes);
+  const waiting = rows.map(row => row.waitingTime);
+  const turnaround = rows.map(row => row.turnaroundTime);
+  const response = rows.map(row => row.responseTime);
+  const normalized = rows.map(row => row.normalizedTurnaround);
+  // Empty runs report zeros like the averages do
+  const orZero = (value: number) => (Number.isFinite(value) ? value : 0);
+
+  return {
+    p50WaitingTime: orZero(percentile(waiting, 50)),
+    p90WaitingTime: orZero(percentile(waiting, 90)),
+    p99WaitingTime: orZero(percentile(waiting, 99)),
+    maxWaitingTime: orZero(Math.max(...waiting)),
+    p50TurnaroundTime: orZero(percentile(turnaround, 50)),
+    p90TurnaroundTime: orZero(percentile(turnaround, 90)),
+    p99TurnaroundTime: orZero(percentile(turnaround, 99)),
+    maxTurnaroundTime: orZero(Math.max(...turnaround)),
+    p50ResponseTime: orZero(percentile(response, 50)),
+    p90ResponseTime: orZero(percentile(response, 90)),
+    p99ResponseTime: orZero(percentile(response, 99)),
+    maxResponseTime: orZero(Math.max(...response)),
+    normalizedTurnaroundStdDev: standardDeviation(normalized),
+    jainFairnessIndex: orZero(jainFairnessIndex(normalized))
+  };
+};
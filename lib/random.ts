@@ -0,0 +1,30 @@
+// Deterministic pseudo-random numbers, so workloads and random scheduling
+// decisions can be reproduced from a seed
+
+// Largest seed value; seeds are unsigned 32-bit integers
+export const MAX_SEED = 0xffffffff;
+
+// Pick a fresh seed for a run that did not ask for a specific one
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * MAX_SEED);
+};
+
+// Turn user input into a valid seed, or null when it is not a whole number in range
+export const parseSeed = (value: string | number): number | null => {
+  const seed = typeof value === 'string' ? Number(value.trim()) : value;
+  if (typeof value === 'string' && value.trim() === '') return null;
+  return Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED ? seed : null;
+};
+
+// Mulberry32: small, fast generator with a full 32-bit state. Returns numbers in
+// [0, 1) like Math.random, and the same sequence for the same seed.
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
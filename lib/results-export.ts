@@ -0,0 +1,81 @@
+import { formatParameterSummary } from './algorithm-parameters';
+import { METRICS, getMetricHeader } from './metrics';
+import { AlgorithmResult, getResultLabels } from './store/algorithm-results';
+import { formatCsv } from './utils';
+
+// Columns identifying the run on every exported row
+const RUN_HEADERS = ['Run', 'Algorithm', 'Parameters', 'Seed'];
+
+const getRunCells = (result: AlgorithmResult, label: string) => [
+  label,
+  result.algorithm,
+  formatParameterSummary(result.config ?? {}),
+  result.seed
+];
+
+// One row per process of every result, with its scheduling metrics
+export const exportProcessResultsCsv = (results: AlgorithmResult[]): string => {
+  const labels = getResultLabels(results);
+  return formatCsv([
+    [
+      ...RUN_HEADERS,
+      'Process',
+      'Arrival Time',
+      'Burst Time',
+      'I/O Burst',
+      'Priority',
+      'Completion Time',
+      'Turnaround Time',
+      'Waiting Time',
+      'Response Time'
+    ],
+    ...results.flatMap(result => result.processes.map(process => [
+      ...getRunCells(result, labels[result.id]),
+      process.name,
+      process.arrivalTime,
+      process.burstTime,
+      process.ioBurstTime ?? 0,
+      process.priority,
+      process.completionTime,
+      process.turnaroundTime,
+      process.waitingTime,
+      process.responseTime
+    ]))
+  ]);
+};
+
+// One row per result with every registered metric
+export const exportSummaryCsv = (results: AlgorithmResult[]): string => {
+  const labels = getResultLabels(results);
+  return formatCsv([
+    [...RUN_HEADERS, 'Processes', ...METRICS.map(getMetricHeader)],
+    ...results.map(result => [
+      ...getRunCells(result, labels[result.id]),
+      result.statistics.totalProcesses,
+      ...METRICS.map(metric => metric.parse(result))
+    ])
+  ]);
+};
+
+// Full results including workload and config, so runs can be reproduced
+export const exportResultsJson = (results: AlgorithmResult[]): string => {
+  const labels = getResultLabels(results);
+  return JSON.stringify(results.map(result => ({
+    label: labels[result.id],
+    algorithm: result.algorithm,
+    config: result.config,
+    seed: result.seed,
+    timestamp: new Date(result.timestamp).toISOString(),
+    statistics: result.statistics,
+    workload: result.workload,
+    processes: result.processes
+  })), null, 2);
+};
+
+// File name stem for an export, e.g. "results-rr" or "results-4-runs"
+export const getExportFileStem = (results: AlgorithmResult[]): string => {
+  if (results.length === 1) {
+    return `results-${results[0].algorithm.toLowerCase()}`;
+  }
+  return `results-${results.length}-runs`;
+};
@@ -0,0 +1,137 @@
+import { AlgorithmDescription } from './api';
+import { BenchmarkRun } from './benchmark';
+import { getParameterDefaults } from './algorithm-parameters';
+import { Process } from './store/algorithm-results';
+import { generateId } from './utils';
+
+// Hand-made workload that demonstrates a classic scheduling phenomenon
+export interface Scenario {
+  id: string;
+  name: string;
+  // What happens and what to look for in the comparison
+  explanation: string;
+  processes: Array<Omit<Process, 'id'>>;
+  // Algorithms worth comparing on this workload, with the parameters that show the effect
+  runs: BenchmarkRun[];
+}
+
+// Shorthand for processes without I/O
+const cpuProcess = (name: string, arrivalTime: number, burstTime: number, priority: number = 1): Omit<Process, 'id'> => ({
+  name,
+  arrivalTime,
+  burstTime,
+  ioBurstTime: 0,
+  priority
+});
+
+export const SCENARIOS: Scenario[] = [
+  {
+    id: 'convoy-effect',
+    name: 'Convoy effect (FCFS)',
+    explanation: 'A long CPU-bound process arrives just before a group of short ones. FCFS makes every short process wait behind it, so the average waiting time is dominated by one job. SRTF and Round Robin let the short processes finish first.',
+    processes: [
+      cpuProcess('Long', 0, 20),
+      cpuProcess('Short-1', 1, 2),
+      cpuProcess('Short-2', 1, 2),
+      cpuProcess('Short-3', 2, 1),
+      cpuProcess('Short-4', 2, 2),
+    ],
+    runs: [
+      { algorithm: 'FCFS', config: {} },
+      { algorithm: 'SRTF', config: {} },
+      { algorithm: 'RR', config: { timeQuantum: 2 } },
+    ]
+  },
+  {
+    id: 'priority-starvation',
+    name: 'Starvation (PRIORITY)',
+    explanation: 'A low-priority process competes with a steady stream of high-priority ones (lower numbers are higher priority). Strict priority scheduling keeps postponing it until the stream dries up. Round Robin ignores priorities, and MLFQ\'s periodic boost bounds how long it can wait.',
+    processes: [
+      cpuProcess('Background', 0, 4, 5),
+      cpuProcess('Urgent-1', 0, 3, 1),
+      cpuProcess('Urgent-2', 2, 3, 1),
+      cpuProcess('Urgent-3', 4, 3, 1),
+      cpuProcess('Urgent-4', 6, 3, 1),
+      cpuProcess('Urgent-5', 8, 3, 1),
+      cpuProcess('Urgent-6', 10, 3, 1),
+      cpuProcess('Urgent-7', 12, 3, 1),
+      cpuProcess('Urgent-8', 14, 3, 1),
+    ],
+    runs: [
+      { algorithm: 'PRIORITY', config: {} },
+      { algorithm: 'PRIORITY_P', config: {} },
+      { algorithm: 'RR', config: { timeQuantum: 2 } },
+      { algorithm: 'MLFQ', config: { boostInterval: 10 } },
+    ]
+  },
+  {
+    id: 'rr-quantum-extremes',
+    name: 'Round Robin quantum extremes',
+    explanation: 'The same workload under Round Robin with a tiny, a moderate and a huge quantum. A quantum of 1 gives quick responses but pays for it with many context switches; a quantum longer than every burst degenerates into FCFS.',
+    processes: [
+      cpuProcess('P1', 0, 6),
+      cpuProcess('P2', 1, 8),
+      cpuProcess('P3', 2, 5),
+      cpuProcess('P4', 3, 7),
+      cpuProcess('P5', 4, 4),
+    ],
+    runs: [
+      { algorithm: 'RR', config: { timeQuantum: 1 } },
+      { algorithm: 'RR', config: { timeQuantum: 4 } },
+      { algorithm: 'RR', config: { timeQuantum: 20 } },
+      { algorithm: 'FCFS', config: {} },
+    ]
+  },
+  {
+    id: 'srtf-mixed-bursts',
+    name: 'SRTF on mixed bursts',
+    explanation: 'Short jobs keep arriving while two long jobs are running. Non-preemptive SJF has to wait for the running job to finish, while SRTF preempts it as soon as a shorter job arrives, giving the lowest average waiting time of all.',
+    processes: [
+      cpuProcess('Long-1', 0, 12),
+      cpuProcess('Long-2', 1, 10),
+      cpuProcess('Short-1', 2, 1),
+      cpuProcess('Short-2', 3, 2),
+      cpuProcess('Short-3', 5, 1),
+      cpuProcess('Short-4', 8, 2),
+    ],
+    runs: [
+      { algorithm: 'FCFS', config: {} },
+      { algorithm: 'SJF', config: {} },
+      { algorithm: 'SRTF', config: {} },
+    ]
+  },
+  {
+    id: 'rm-vs-edf',
+    name: 'Rate Monotonic vs EDF',
+    explanation: 'Three periodic tasks use 96% of the CPU, above the Liu & Layland bound of 78% for three tasks. Rate Monotonic gives the longest-period task the lowest priority and it misses its first deadline at time 8. EDF always runs the nearest deadline and meets all of them, as it does whenever utilization is at most 100%.',
+    processes: [
+      { ...cpuProcess('T1', 0, 1), period: 4 },
+      { ...cpuProcess('T2', 0, 2), period: 6 },
+      { ...cpuProcess('T3', 0, 3), period: 8 },
+    ],
+    runs: [
+      { algorithm: 'RM', config: {} },
+      { algorithm: 'EDF', config: {} },
+      { algorithm: 'FCFS', config: {} },
+    ]
+  },
+];
+
+// Fresh copies of a scenario's processes, with ids for the store
+export const getScenarioProcesses = (scenario: Scenario): Process[] => {
+  return scenario.processes.map(process => ({ ...process, id: generateId() }));
+};
+
+// Recommended runs with every parameter the scenario doesn't set filled from its defaults
+export const buildScenarioRuns = (
+  scenario: Scenario,
+  descriptions: Record<string, AlgorithmDescription>
+): BenchmarkRun[] => {
+  return scenario.runs.map(run => ({
+    algorithm: run.algorithm,
+    config: {
+      ...getParameterDefaults(descriptions[run.algorithm]?.parameters ?? []),
+      ...run.config
+    }
+  }));
+};
@@ -0,0 +1,313 @@
+import { AlgorithmDescription, AlgorithmParameter, SimulationConfig } from '../api';
+import { MAX_SEED } from '../random';
+import { IoDevice } from './devices';
+
+// Process as tracked by the in-browser engine
+export interface EngineProcess {
+  id: string;
+  name: string;
+  arrivalTime: number;
+  burstTime: number;
+  ioBurstTime?: number;
+  priority: number;
+  remainingTime: number;
+  state: 'new' | 'ready' | 'running' | 'blocked' | 'terminated';
+  waitingTime: number;
+  turnaroundTime?: number;
+  responseTime?: number;
+  completionTime?: number;
+  // Position in the submitted workload, used to break ties deterministically
+  order: number;
+  // Time units consumed since the process was last dispatched
+  sliceUsed: number;
+  // Feedback queue the process sits in (0 is the highest priority level)
+  queueLevel: number;
+  // Real-time task model; a periodic process runs one job of burstTime per period
+  period?: number;
+  deadline?: number;
+  wcet?: number;
+  // Release time and absolute deadline of the current job
+  releaseTime: number;
+  absoluteDeadline?: number;
+  // Jobs still to be released after the current one
+  jobsLeft: number;
+  missedDeadlines: number[];
+  maxLateness?: number;
+  // Affinity as configured, and the valid cores it leaves (undefined when any core will do)
+  affinity?: number[];
+  allowedCores?: number[];
+  // Core the process last ran on, to count migrations
+  lastCore?: number;
+  // Alternating CPU and I/O durations, the current one, and the I/O time left while blocked
+  bursts: number[];
+  burstIndex: number;
+  ioRemaining: number;
+  // Devices as configured, and the device serving each I/O burst
+  ioDevices?: string[];
+  devices: IoDevice[];
+}
+
+// Information a policy can use when making a decision
+export interface PolicyContext {
+  currentTime: number;
+  config: SimulationConfig;
+  random: () => number;
+}
+
+// A scheduling policy plugged into the engine
+export interface SchedulingPolicy {
+  description: AlgorithmDescription;
+  // Returns the index of the ready queue entry to dispatch next
+  selectNext: (readyQueue: EngineProcess[], context: PolicyContext) => number;
+  // Decides whether the running process must give up the CPU before the next tick
+  shouldPreempt?: (
+    running: EngineProcess,
+    readyQueue: EngineProcess[],
+    context: PolicyContext
+  ) => boolean;
+  // Time slice for a dispatched process; once used up the process goes back to the ready queue
+  getQuantum?: (process: EngineProcess, context: PolicyContext) => number;
+  // Called when a process used up its time slice, before it rejoins the ready queue
+  onQuantumExpired?: (process: EngineProcess, context: PolicyContext) => void;
+  // Called at the start of every tick with all ready and running processes
+  onTick?: (processes: EngineProcess[], context: PolicyContext) => void;
+  // Number of separate ready queues the policy keeps, when it uses queue levels
+  getQueueLevels?: (context: PolicyContext) => number;
+}
+
+export const DEFAULT_TIME_QUANTUM = 2;
+export const DEFAULT_MLFQ_LEVELS = 3;
+export const DEFAULT_MLFQ_QUANTUM_MULTIPLIER = 2;
+export const DEFAULT_MLFQ_BOOST_INTERVAL = 20;
+export const DEFAULT_RANDOM_SEED = 1;
+
+// Index of the entry with the smallest key, keeping queue order on ties
+export const indexOfMin = (queue: EngineProcess[], key: (p: EngineProcess) => number): number => {
+  let best = 0;
+  for (let i = 1; i < queue.length; i++) {
+    if (key(queue[i]) < key(queue[best])) {
+      best = i;
+    }
+  }
+  return best;
+};
+
+// Horizon parameter shared by the real-time policies
+const HORIZON_PARAMETER: AlgorithmParameter = {
+  name: 'horizon',
+  description: 'Time after which periodic tasks release no more jobs (0 runs one hyperperiod).',
+  type: 'number',
+  defaultValue: 0,
+  min: 0,
+  step: 1
+};
+
+// Positive whole number from the config, or the fallback when missing or invalid
+const positiveInteger = (value: unknown, fallback: number): number => {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? Math.ceil(number) : fallback;
+};
+
+const getTimeQuantum = (config: SimulationConfig): number => {
+  return positiveInteger(config.timeQuantum, DEFAULT_TIME_QUANTUM);
+};
+
+const getMlfqLevels = (config: SimulationConfig): number => {
+  return positiveInteger(config.queueLevels, DEFAULT_MLFQ_LEVELS);
+};
+
+// Quantum of an MLFQ level: an explicit per-level list wins, otherwise the
+// base quantum grows by the multiplier at every level
+const getMlfqQuantum = (level: number, config: SimulationConfig): number => {
+  const explicit = config.levelQuanta?.[level];
+  if (explicit !== undefined) {
+    return positiveInteger(explicit, getTimeQuantum(config));
+  }
+
+  const multiplier = Number(config.quantumMultiplier ?? DEFAULT_MLFQ_QUANTUM_MULTIPLIER);
+  const factor = Number.isFinite(multiplier) && multiplier >= 1 ? multiplier : 1;
+  return Math.ceil(getTimeQuantum(config) * Math.pow(factor, level));
+};
+
+// Policies supported by the in-browser engine, keyed by the backend algorithm id
+export const schedulingPolicies: Record<string, SchedulingPolicy> = {
+  FCFS: {
+    description: {
+      name: 'First-Come, First-Served (FCFS)',
+      description: 'A non-preemptive scheduling algorithm that executes processes in the order they arrive in the ready queue. Simple, but short processes can wait a long time behind long ones.',
+      type: 'non-preemptive',
+      parameters: []
+    },
+    selectNext: () => 0
+  },
+  SJF: {
+    description: {
+      name: 'Shortest Job First (SJF)',
+      description: 'A non-preemptive scheduling algorithm that picks the ready process with the smallest CPU burst. It minimizes the average waiting time but can starve long processes.',
+      type: 'non-preemptive',
+      parameters: []
+    },
+    // Length of the upcoming CPU burst, which is the whole burst for single-burst processes
+    selectNext: (readyQueue) => indexOfMin(readyQueue, p => p.bursts[p.burstIndex])
+  },
+  SRTF: {
+    description: {
+      name: 'Shortest Remaining Time First (SRTF)',
+      description: 'The preemptive version of SJF. Whenever a process arrives with less remaining time than the running one, the running process is preempted.',
+      type: 'preemptive',
+      parameters: []
+    },
+    selectNext: (readyQueue) => indexOfMin(readyQueue, p => p.remainingTime),
+    shouldPreempt: (running, readyQueue) =>
+      readyQueue.some(p => p.remainingTime < running.remainingTime)
+  },
+  RR: {
+    description: {
+      name: 'Round Robin (RR)',
+      description: 'A preemptive scheduling algorithm that gives each process a fixed time quantum in turn. A process that exhausts its quantum goes back to the end of the ready queue.',
+      type: 'preemptive',
+      parameters: [
+        {
+          name: 'timeQuantum',
+          description: 'Maximum number of time units a process may run before being preempted.',
+          type: 'number',
+          defaultValue: DEFAULT_TIME_QUANTUM,
+          min: 1,
+          step: 1
+        }
+      ]
+    },
+    selectNext: () => 0,
+    getQuantum: (_, context) => getTimeQuantum(context.config)
+  },
+  PRIORITY: {
+    description: {
+      name: 'Priority (Non-preemptive)',
+      description: 'A non-preemptive scheduling algorithm that picks the ready process with the highest priority. Lower numbers mean higher priority.',
+      type: 'non-preemptive',
+      parameters: []
+    },
+    selectNext: (readyQueue) => indexOfMin(readyQueue, p => p.priority)
+  },
+  PRIORITY_P: {
+    description: {
+      name: 'Priority (Preemptive)',
+      description: 'The preemptive version of priority scheduling. A newly ready process with a higher priority (lower number) preempts the running one.',
+      type: 'preemptive',
+      parameters: []
+    },
+    selectNext: (readyQueue) => indexOfMin(readyQueue, p => p.priority),
+    shouldPreempt: (running, readyQueue) =>
+      readyQueue.some(p => p.priority < running.priority)
+  },
+  RANDOM: {
+    description: {
+      name: 'Random',
+      description: 'A non-preemptive scheduling algorithm that picks a ready process at random. Useful as a baseline for comparing the other algorithms.',
+      type: 'non-preemptive',
+      parameters: [
+        {
+          name: 'seed',
+          description: 'Seed of the random choices. The same seed and workload always give the same schedule.',
+          type: 'number',
+          defaultValue: DEFAULT_RANDOM_SEED,
+          min: 0,
+          max: MAX_SEED,
+          step: 1
+        }
+      ]
+    },
+    selectNext: (readyQueue, context) => Math.floor(context.random() * readyQueue.length)
+  },
+  MLFQ: {
+    description: {
+      name: 'Multi-Level Feedback Queue (MLFQ)',
+      description: 'A preemptive scheduling algorithm with several round-robin queues of decreasing priority. New processes start in the top queue, a process that uses up its quantum is demoted one level, and all processes are periodically boosted back to the top to prevent starvation.',
+      type: 'preemptive',
+      parameters: [
+        {
+          name: 'queueLevels',
+          description: 'Number of feedback queues.',
+          type: 'range',
+          defaultValue: DEFAULT_MLFQ_LEVELS,
+          min: 1,
+          max: 8,
+          step: 1
+        },
+        {
+          name: 'timeQuantum',
+          description: 'Time quantum of the top queue.',
+          type: 'number',
+          defaultValue: DEFAULT_TIME_QUANTUM,
+          min: 1,
+          step: 1
+        },
+        {
+          name: 'quantumMultiplier',
+          description: 'Factor by which the quantum grows at each lower level.',
+          type: 'number',
+          defaultValue: DEFAULT_MLFQ_QUANTUM_MULTIPLIER,
+          min: 1,
+          step: 0.5
+        },
+        {
+          name: 'boostInterval',
+          description: 'Every this many time units all processes move back to the top queue (0 disables the boost).',
+          type: 'number',
+          defaultValue: DEFAULT_MLFQ_BOOST_INTERVAL,
+          min: 0,
+          step: 1
+        }
+      ]
+    },
+    // First process of the highest non-empty level
+    selectNext: (readyQueue) => indexOfMin(readyQueue, p => p.queueLevel),
+    shouldPreempt: (running, readyQueue) =>
+      readyQueue.some(p => p.queueLevel < running.queueLevel),
+    getQuantum: (process, context) => getMlfqQuantum(process.queueLevel, context.config),
+    onQuantumExpired: (process, context) => {
+      process.queueLevel = Math.min(process.queueLevel + 1, getMlfqLevels(context.config) - 1);
+    },
+    onTick: (processes, context) => {
+      const boostInterval = Number(context.config.boostInterval ?? DEFAULT_MLFQ_BOOST_INTERVAL);
+      if (boostInterval > 0 && context.currentTime > 0 && context.currentTime % boostInterval === 0) {
+        processes.forEach(p => {
+          p.queueLevel = 0;
+        });
+      }
+    },
+    getQueueLevels: (context) => getMlfqLevels(context.config)
+  },
+  EDF: {
+    description: {
+      name: 'Earliest Deadline First (EDF)',
+      description: 'A preemptive real-time scheduling algorithm that always runs the job with the nearest absolute deadline. It meets every deadline whenever the task utilization is at most 1.',
+      type: 'preemptive',
+      parameters: [HORIZON_PARAMETER]
+    },
+    selectNext: (readyQueue) => indexOfMin(readyQueue, p => p.absoluteDeadline ?? Infinity),
+    shouldPreempt: (running, readyQueue) =>
+      readyQueue.some(p => (p.absoluteDeadline ?? Infinity) < (running.absoluteDeadline ?? Infinity))
+  },
+  RM: {
+    description: {
+      name: 'Rate Monotonic (RM)',
+      description: 'A preemptive real-time scheduling algorithm with fixed priorities: the shorter the period of a task, the higher its priority. Processes without a period run in the background.',
+      type: 'preemptive',
+      parameters: [HORIZON_PARAMETER]
+    },
+    selectNext: (readyQueue) => indexOfMin(readyQueue, p => p.period ?? Infinity),
+    shouldPreempt: (running, readyQueue) =>
+      readyQueue.some(p => (p.period ?? Infinity) < (running.period ?? Infinity))
+  }
+};
+
+// Algorithm ids in the same order the backend reports them
+export const LOCAL_ALGORITHMS = Object.keys(schedulingPolicies);
+
+// Algorithm descriptions in the same shape as the backend endpoint
+export const getLocalAlgorithmDescriptions = (): Record<string, AlgorithmDescription> => {
+  return Object.fromEntries(
+    Object.entries(schedulingPolicies).map(([key, policy]) => [key, policy.description])
+  );
+};
@@ -0,0 +1,63 @@
+import { Process } from '../api';
+import { DEFAULT_IO_DEVICE, getIoDevices } from './devices';
+
+// A burst sequence alternates CPU and I/O durations, starting and ending with
+// CPU: [4, 3, 2, 5, 1] is CPU 4 → I/O 3 → CPU 2 → I/O 5 → CPU 1. Processes
+// without one run a single CPU burst of burstTime.
+
+export const isCpuBurst = (index: number): boolean => index % 2 === 0;
+
+// Positive whole durations ending with a CPU burst, or null when nothing valid is left
+const normalizeBursts = (bursts: number[]): number[] | null => {
+  const durations = bursts.map(duration => Math.max(1, Math.ceil(duration)));
+  const sequence = durations.length % 2 === 0 ? durations.slice(0, -1) : durations;
+  return sequence.length > 0 && sequence.every(Number.isFinite) ? sequence : null;
+};
+
+export const getBurstSequence = (process: Pick<Process, 'burstTime' | 'bursts'>): number[] => {
+  return (process.bursts && normalizeBursts(process.bursts)) || [Math.max(1, Math.ceil(process.burstTime))];
+};
+
+export const hasBurstSequence = (process: Pick<Process, 'bursts'>): boolean => {
+  return (process.bursts?.length ?? 0) > 1;
+};
+
+export const sumCpuBursts = (bursts: number[]): number => {
+  return bursts.reduce((sum, duration, index) => (isCpuBurst(index) ? sum + duration : sum), 0);
+};
+
+export const sumIoBursts = (bursts: number[]): number => {
+  return bursts.reduce((sum, duration, index) => (isCpuBurst(index) ? sum : sum + duration), 0);
+};
+
+// Process with a new burst sequence and matching CPU and I/O totals; a single
+// CPU burst is stored as a plain burst time. Devices follow the I/O bursts and
+// are left out when every burst uses the default device.
+export const withBursts = <P extends Pick<Process, 'burstTime' | 'ioBurstTime' | 'bursts' | 'ioDevices'>>(
+  process: P,
+  bursts: number[]
+): P => {
+  const sequence = normalizeBursts(bursts) ?? [process.burstTime];
+  if (sequence.length === 1) {
+    return { ...process, bursts: undefined, ioDevices: undefined, burstTime: sequence[0], ioBurstTime: 0 };
+  }
+  const ioDevices = getIoDevices({ bursts: sequence, ioDevices: process.ioDevices });
+  return {
+    ...process,
+    bursts: sequence,
+    ioDevices: ioDevices.some(device => device !== DEFAULT_IO_DEVICE) ? ioDevices : undefined,
+    burstTime: sumCpuBursts(sequence),
+    ioBurstTime: sumIoBursts(sequence)
+  };
+};
+
+// Sequence as written in files, e.g. "4 3 2 5 1"
+export const formatBursts = (bursts: number[] | undefined): string => (bursts ?? []).join(' ');
+
+// Durations separated by spaces, commas, semicolons or arrows; null when any isn't a positive number
+export const parseBursts = (text: string): number[] | null => {
+  const parts = text.split(/[\s,;>→-]+/).filter(Boolean);
+  if (parts.length === 0) return null;
+  const durations = parts.map(Number);
+  return durations.every(duration => Number.isFinite(duration) && duration > 0) ? durations : null;
+};
@@ -0,0 +1,64 @@
+import { AlgorithmParameter, Process, SimulationConfig } from '../api';
+
+// Named I/O devices. Each serves one request at a time, so processes blocked on
+// the same device queue behind each other while different devices work in parallel.
+export type IoDevice = 'disk' | 'network' | 'keyboard';
+
+export const IO_DEVICES: IoDevice[] = ['disk', 'network', 'keyboard'];
+export const DEFAULT_IO_DEVICE: IoDevice = 'disk';
+
+export const IO_DEVICE_LABELS: Record<IoDevice, string> = {
+  disk: 'Disk',
+  network: 'Network',
+  keyboard: 'Keyboard'
+};
+
+// Which queued request a device serves next
+export type IoServiceOrder = 'fcfs' | 'shortest-first' | 'priority';
+
+export const IO_SERVICE_ORDERS: IoServiceOrder[] = ['fcfs', 'shortest-first', 'priority'];
+export const DEFAULT_IO_SERVICE_ORDER: IoServiceOrder = 'fcfs';
+
+const serviceOrderParameter = (device: IoDevice): string => `${device}ServiceOrder`;
+
+// Service order of every device, edited alongside the CPU settings
+export const IO_PARAMETERS: AlgorithmParameter[] = IO_DEVICES.map(device => ({
+  name: serviceOrderParameter(device),
+  label: `${IO_DEVICE_LABELS[device]} service order`,
+  description: `Order in which the ${device} serves queued requests: first come first served, shortest request first, or the process with the highest priority (lowest number) first.`,
+  type: 'enum',
+  defaultValue: DEFAULT_IO_SERVICE_ORDER,
+  options: IO_SERVICE_ORDERS
+}));
+
+export const isIoDevice = (value: unknown): value is IoDevice => IO_DEVICES.includes(value as IoDevice);
+
+export const getIoServiceOrder = (config: SimulationConfig, device: IoDevice): IoServiceOrder => {
+  const order = config[serviceOrderParameter(device)];
+  return IO_SERVICE_ORDERS.includes(order as IoServiceOrder) ? (order as IoServiceOrder) : DEFAULT_IO_SERVICE_ORDER;
+};
+
+// Device settings that differ from the defaults, so configs without I/O changes stay as they were
+export const getIoConfig = (config: SimulationConfig): SimulationConfig => {
+  return Object.fromEntries(IO_DEVICES
+    .filter(device => getIoServiceOrder(config, device) !== DEFAULT_IO_SERVICE_ORDER)
+    .map(device => [serviceOrderParameter(device), getIoServiceOrder(config, device)]));
+};
+
+// Device of each I/O burst in a process's burst sequence, defaulting to the disk
+export const getIoDevices = (process: Pick<Process, 'bursts' | 'ioDevices'>): IoDevice[] => {
+  const ioBurstCount = Math.floor((process.bursts?.length ?? 0) / 2);
+  return Array.from({ length: ioBurstCount }, (_, index) => {
+    const device = process.ioDevices?.[index];
+    return isIoDevice(device) ? device : DEFAULT_IO_DEVICE;
+  });
+};
+
+// Devices as written in files, e.g. "disk network"
+export const formatIoDevices = (devices: Process['ioDevices']): string => (devices ?? []).join(' ');
+
+// Device names separated by spaces, commas, semicolons or arrows; null when any isn't a known device
+export const parseIoDevices = (text: string): IoDevice[] | null => {
+  const names = text.toLowerCase().split(/[\s,;>→-]+/).filter(Boolean);
+  return names.length > 0 && names.every(isIoDevice) ? names : null;
+};
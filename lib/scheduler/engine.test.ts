@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Process } from '../api';
+import { createSchedulerEngine, simulate } from './engine';
+
+// Small workload where every algorithm below picks a different order once P1 is done:
+// FCFS by arrival, SJF by burst and priority scheduling by priority (lowest number first)
+const WORKLOAD: Process[] = [
+  { id: 'p1', name: 'P1', arrivalTime: 0, burstTime: 5, priority: 3 },
+  { id: 'p2', name: 'P2', arrivalTime: 1, burstTime: 3, priority: 2 },
+  { id: 'p3', name: 'P3', arrivalTime: 2, burstTime: 1, priority: 4 },
+  { id: 'p4', name: 'P4', arrivalTime: 3, burstTime: 2, priority: 1 }
+];
+
+// Completion and waiting time of every process, by name
+const run = (algorithm: string, config = {}) => {
+  const { results } = simulate(algorithm, WORKLOAD, config);
+  return Object.fromEntries(results.map(p => [p.name, [p.completionTime, p.waitingTime]]));
+};
+
+describe('scheduler engine', () => {
+  it('runs FCFS in arrival order', () => {
+    // P1 0-5, P2 5-8, P3 8-9, P4 9-11
+    assert.deepEqual(run('FCFS'), { P1: [5, 0], P2: [8, 4], P3: [9, 6], P4: [11, 6] });
+  });
+
+  it('runs SJF shortest burst first without preemption', () => {
+    // P1 0-5, P3 5-6, P4 6-8, P2 8-11
+    assert.deepEqual(run('SJF'), { P1: [5, 0], P2: [11, 7], P3: [6, 3], P4: [8, 3] });
+  });
+
+  it('runs Round Robin with the given quantum', () => {
+    // P1 0-2, P2 2-4, P3 4-5, P1 5-7, P4 7-9, P2 9-10, P1 10-11
+    assert.deepEqual(run('RR', { timeQuantum: 2 }), { P1: [11, 6], P2: [10, 6], P3: [5, 2], P4: [9, 4] });
+  });
+
+  it('runs priority scheduling highest priority first without preemption', () => {
+    // P1 0-5, P4 5-7, P2 7-10, P3 10-11
+    assert.deepEqual(run('PRIORITY'), { P1: [5, 0], P2: [10, 6], P3: [11, 8], P4: [7, 2] });
+  });
+
+  it('rejects burst times that are not finite numbers instead of never completing', () => {
+    const workload = [{ id: 'p1', name: 'P1', arrivalTime: 0, burstTime: NaN, priority: 1 }];
+    assert.throws(() => createSchedulerEngine('FCFS', workload), /P1/);
+    assert.throws(() => simulate('FCFS', [{ ...workload[0], burstTime: 2, arrivalTime: Infinity }]), /P1/);
+  });
+});
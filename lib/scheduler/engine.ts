@@ -0,0 +1,594 @@
+import { Process, SimulationConfig } from '../api';
+import { SimulationStepData, SimulationCompletedData } from '../socket';
+import { generateId } from '../utils';
+import { appendTimelineSlice, DispatchOverhead, TimelineSlice } from '../timeline';
+import { createRandom } from '../random';
+import { DEFAULT_RANDOM_SEED, EngineProcess, indexOfMin, PolicyContext, schedulingPolicies } from './algorithms';
+import { getJobCount, getRealtimeHorizon } from './realtime';
+import { getBurstSequence, sumCpuBursts } from './bursts';
+import { getIoDevices, getIoServiceOrder, IO_DEVICES, IoDevice, IoServiceOrder } from './devices';
+import {
+  computeLoadImbalance,
+  getContextSwitchCost,
+  getCoreCount,
+  getLoadBalanceInterval,
+  getQueueMode,
+  getSchedulerCost,
+  resolveAffinity
+} from './smp';
+
+// A step-by-step simulation running entirely in the browser
+export interface SchedulerEngine {
+  step: () => void;
+  isComplete: () => boolean;
+  getStepData: () => SimulationStepData;
+  getResults: () => SimulationCompletedData;
+}
+
+const average = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+// Device serving the I/O burst that follows the current CPU burst
+const getCurrentDevice = (process: EngineProcess): IoDevice => process.devices[process.burstIndex / 2];
+
+// Strip engine bookkeeping so frames and results match the backend payloads
+const toProcess = (process: EngineProcess): Process => ({
+  id: process.id,
+  name: process.name,
+  arrivalTime: process.arrivalTime,
+  burstTime: process.burstTime,
+  ioBurstTime: process.ioBurstTime,
+  priority: process.priority,
+  remainingTime: process.remainingTime,
+  state: process.state,
+  waitingTime: process.waitingTime,
+  turnaroundTime: process.turnaroundTime,
+  responseTime: process.responseTime,
+  completionTime: process.completionTime,
+  queueLevel: process.queueLevel,
+  period: process.period,
+  deadline: process.deadline,
+  wcet: process.wcet,
+  missedDeadlines: process.absoluteDeadline !== undefined ? [...process.missedDeadlines] : undefined,
+  maxLateness: process.maxLateness,
+  affinity: process.affinity,
+  ...(process.bursts.length > 1
+    ? { bursts: [...process.bursts], ioDevices: process.ioDevices, burstIndex: process.burstIndex }
+    : {}),
+  ioRemainingTime: process.state === 'blocked' ? process.ioRemaining : undefined,
+  ioDevice: process.state === 'blocked' ? getCurrentDevice(process) : undefined
+});
+
+
+// A CPU core and the process it is running
+interface EngineCore {
+  id: number;
+  running: EngineProcess | null;
+  // Run queue of the core; in global mode all cores share the same array
+  readyQueue: EngineProcess[];
+  // Last process that ran on the core, to count context switches
+  lastRunId: string | null;
+  // Process that ran during the current time unit, which may complete at its end
+  lastRun: EngineProcess | null;
+  // Dispatch work left before the dispatched process runs, one entry per time unit,
+  // and the kind done during the current time unit
+  pendingOverhead: DispatchOverhead[];
+  lastOverhead: DispatchOverhead | null;
+  // Time spent running processes or dispatching, and the part spent dispatching
+  busyTime: number;
+  overheadTime: number;
+}
+
+// An I/O device, the request it is serving and the requests waiting for it
+interface EngineDevice {
+  name: IoDevice;
+  serviceOrder: IoServiceOrder;
+  serving: EngineProcess | null;
+  queue: EngineProcess[];
+  busyTime: number;
+}
+
+// Positive time value of a real-time field, or undefined when missing or invalid
+const positiveTime = (value: number | undefined): number | undefined => {
+  return value !== undefined && value > 0 ? Math.ceil(value) : undefined;
+};
+
+// Create an engine for the given algorithm and workload.
+// The engine advances in whole time units. A process with a burst sequence
+// blocks for each I/O burst, which its device serves alongside the CPU once
+// earlier requests are done, then queues again.
+// A periodic process releases a new job every period until the horizon.
+// With several cores every core runs the policy on its own run queue, or all
+// of them take turns picking from one shared queue. Dispatching can cost time:
+// the scheduler runs on every pick and a context switch precedes a different process.
+export const createSchedulerEngine = (
+  algorithm: string,
+  processes: Process[],
+  config: SimulationConfig = {}
+): SchedulerEngine => {
+  const policy = schedulingPolicies[algorithm];
+  if (!policy) {
+    throw new Error(`Algorithm ${algorithm} is not supported by the in-browser engine`);
+  }
+  // A process without a finite arrival or burst time would never complete
+  const invalid = processes.find(p => !Number.isFinite(p.arrivalTime) || !getBurstSequence(p).every(Number.isFinite));
+  if (invalid) {
+    throw new Error(`Process ${invalid.name} needs a finite arrival time and burst time`);
+  }
+
+  const horizon = getRealtimeHorizon(processes, config);
+  const coreCount = getCoreCount(config);
+  const perCoreQueues = coreCount > 1 && getQueueMode(config) === 'per-core';
+  const loadBalanceInterval = getLoadBalanceInterval(config);
+  const contextSwitchCost = getContextSwitchCost(config);
+  const schedulerCost = getSchedulerCost(config);
+  const hasOverhead = contextSwitchCost > 0 || schedulerCost > 0;
+
+  const allProcesses: EngineProcess[] = processes.map((p, index) => {
+    const bursts = getBurstSequence(p);
+    const burstTime = sumCpuBursts(bursts);
+    const arrivalTime = Math.max(0, Math.ceil(p.arrivalTime));
+    const period = positiveTime(p.period);
+    // Periodic jobs are due by the next release unless the task says otherwise
+    const deadline = positiveTime(p.deadline) ?? period;
+    return {
+      id: p.id || generateId(),
+      name: p.name,
+      arrivalTime,
+      burstTime,
+      ioBurstTime: p.ioBurstTime,
+      priority: p.priority ?? 1,
+      remainingTime: bursts[0],
+      state: 'new',
+      waitingTime: 0,
+      order: index,
+      sliceUsed: 0,
+      queueLevel: 0,
+      period,
+      deadline: positiveTime(p.deadline),
+      wcet: positiveTime(p.wcet),
+      releaseTime: arrivalTime,
+      absoluteDeadline: deadline !== undefined ? arrivalTime + deadline : undefined,
+      jobsLeft: getJobCount({ ...p, arrivalTime, period }, horizon) - 1,
+      missedDeadlines: [],
+      affinity: p.affinity,
+      allowedCores: resolveAffinity(p.affinity, coreCount),
+      bursts,
+      burstIndex: 0,
+      ioRemaining: 0,
+      ioDevices: p.ioDevices,
+      devices: getIoDevices({ bursts, ioDevices: p.ioDevices })
+    };
+  });
+
+  // Processes whose next job has not been released yet, in release order
+  const pending = [...allProcesses].sort(
+    (a, b) => a.releaseTime - b.releaseTime || a.order - b.order
+  );
+  // In global mode every core refers to this one ready queue
+  const sharedQueue: EngineProcess[] = [];
+  const cores: EngineCore[] = Array.from({ length: coreCount }, (_, id) => ({
+    id,
+    running: null,
+    readyQueue: perCoreQueues ? [] : sharedQueue,
+    lastRunId: null,
+    lastRun: null,
+    pendingOverhead: [],
+    lastOverhead: null,
+    busyTime: 0,
+    overheadTime: 0
+  }));
+  // Processes blocked on I/O, in the order they blocked
+  const waitingQueue: EngineProcess[] = [];
+  const devices: EngineDevice[] = IO_DEVICES.map(name => ({
+    name,
+    serviceOrder: getIoServiceOrder(config, name),
+    serving: null,
+    queue: [],
+    busyTime: 0
+  }));
+  // Devices are only reported for workloads that do I/O
+  const hasIo = allProcesses.some(p => p.bursts.length > 1);
+  const completed: EngineProcess[] = [];
+  let currentTime = 0;
+  let contextSwitches = 0;
+  let migrations = 0;
+  let timeline: TimelineSlice[] = [];
+
+  const context: PolicyContext = {
+    currentTime,
+    config,
+    // Seeded so random policies make the same choices for the same config
+    random: createRandom(Number(config.seed ?? DEFAULT_RANDOM_SEED))
+  };
+
+  const isComplete = () => completed.length === allProcesses.length;
+
+  const getReadyProcesses = (): EngineProcess[] => {
+    return perCoreQueues ? cores.flatMap(core => core.readyQueue) : sharedQueue;
+  };
+
+  const getRunningProcesses = (): EngineProcess[] => {
+    return cores.flatMap(core => (core.running ? [core.running] : []));
+  };
+
+  const canRunOn = (process: EngineProcess, core: EngineCore) => {
+    return process.allowedCores === undefined || process.allowedCores.includes(core.id);
+  };
+
+  const getLoad = (core: EngineCore) => core.readyQueue.length + (core.running ? 1 : 0);
+
+  // New jobs join the least loaded core they may run on, preferring the core they last ran on
+  const enqueue = (process: EngineProcess) => {
+    process.state = 'ready';
+    if (!perCoreQueues) {
+      sharedQueue.push(process);
+      return;
+    }
+
+    const target = cores
+      .filter(core => canRunOn(process, core))
+      .reduce((best, core) => {
+        const order = getLoad(core) - getLoad(best) ||
+          Number(best.id === process.lastCore) - Number(core.id === process.lastCore);
+        return order < 0 ? core : best;
+      });
+    target.readyQueue.push(process);
+  };
+
+  const admitArrivals = () => {
+    while (pending.length > 0 && pending[0].releaseTime <= currentTime) {
+      enqueue(pending.shift() as EngineProcess);
+    }
+  };
+
+  // Move queued processes from the busiest core to less loaded ones until the
+  // loads differ by at most one, or nothing queued there may move
+  const balanceLoad = () => {
+    if (!perCoreQueues || loadBalanceInterval === 0) return;
+    if (currentTime === 0 || currentTime % loadBalanceInterval !== 0) return;
+
+    for (let moves = 0; moves < allProcesses.length; moves++) {
+      const byLoad = [...cores].sort((a, b) => getLoad(b) - getLoad(a) || a.id - b.id);
+      const busiest = byLoad[0];
+      const moved = byLoad.slice(1).reverse().some(target => {
+        if (getLoad(busiest) - getLoad(target) < 2) return false;
+        for (let i = busiest.readyQueue.length - 1; i >= 0; i--) {
+          if (canRunOn(busiest.readyQueue[i], target)) {
+            target.readyQueue.push(...busiest.readyQueue.splice(i, 1));
+            return true;
+          }
+        }
+        return false;
+      });
+      if (!moved) return;
+    }
+  };
+
+  // Queue the next job of a periodic task; a late job delays it but keeps its deadline
+  const releaseNextJob = (process: EngineProcess) => {
+    const period = process.period as number;
+    const relativeDeadline = (process.absoluteDeadline as number) - process.releaseTime;
+    process.jobsLeft--;
+    process.releaseTime += period;
+    process.absoluteDeadline = process.releaseTime + relativeDeadline;
+    process.burstIndex = 0;
+    process.remainingTime = process.bursts[0];
+    process.state = 'new';
+    pending.push(process);
+    pending.sort((a, b) => a.releaseTime - b.releaseTime || a.order - b.order);
+  };
+
+  const finishJob = (process: EngineProcess) => {
+    if (process.absoluteDeadline !== undefined) {
+      const lateness = currentTime - process.absoluteDeadline;
+      process.maxLateness = Math.max(process.maxLateness ?? lateness, lateness);
+    }
+
+    if (process.jobsLeft > 0) {
+      releaseNextJob(process);
+      return;
+    }
+
+    process.state = 'terminated';
+    process.completionTime = currentTime;
+    process.turnaroundTime = currentTime - process.arrivalTime;
+    completed.push(process);
+  };
+
+  // The CPU burst is done: block for the following I/O burst, or finish the job
+  const finishBurst = (process: EngineProcess) => {
+    if (process.burstIndex + 1 < process.bursts.length) {
+      process.state = 'blocked';
+      process.ioRemaining = process.bursts[process.burstIndex + 1];
+      waitingQueue.push(process);
+      devices.find(device => device.name === getCurrentDevice(process))?.queue.push(process);
+      return;
+    }
+    finishJob(process);
+  };
+
+  const selectRequest = (device: EngineDevice): number => {
+    switch (device.serviceOrder) {
+      case 'shortest-first':
+        return indexOfMin(device.queue, p => p.ioRemaining);
+      case 'priority':
+        return indexOfMin(device.queue, p => p.priority);
+      default:
+        return 0;
+    }
+  };
+
+  // Idle devices take their next request, including ones made during the last time unit
+  const startIo = () => {
+    devices.forEach(device => {
+      if (!device.serving && device.queue.length > 0) {
+        device.serving = device.queue.splice(selectRequest(device), 1)[0];
+      }
+    });
+  };
+
+  const serveIo = () => {
+    devices.forEach(device => {
+      if (device.serving) {
+        device.serving.ioRemaining--;
+        device.busyTime++;
+      }
+    });
+  };
+
+  // Processes whose I/O burst is over queue for their next CPU burst
+  const completeIo = () => {
+    devices.forEach(device => {
+      const process = device.serving;
+      if (!process || process.ioRemaining > 0) return;
+      device.serving = null;
+      waitingQueue.splice(waitingQueue.indexOf(process), 1);
+      process.burstIndex += 2;
+      process.remainingTime = process.bursts[process.burstIndex];
+      enqueue(process);
+    });
+  };
+
+  // A job misses its deadline as soon as the deadline passes with work left
+  const recordDeadlineMisses = () => {
+    [...getReadyProcesses(), ...getRunningProcesses(), ...waitingQueue].forEach(p => {
+      if (p.absoluteDeadline !== undefined &&
+          p.absoluteDeadline <= currentTime &&
+          p.missedDeadlines[p.missedDeadlines.length - 1] !== p.absoluteDeadline) {
+        p.missedDeadlines.push(p.absoluteDeadline);
+      }
+    });
+  };
+
+  const dispatch = (core: EngineCore) => {
+    // The process being dispatched can't be preempted before it starts
+    if (core.pendingOverhead.length > 0) return;
+
+    const queue = core.readyQueue;
+    const running = core.running;
+    const quantumExpired = running !== null &&
+      policy.getQuantum !== undefined &&
+      running.sliceUsed >= policy.getQuantum(running, context);
+
+    if (running && quantumExpired) {
+      policy.onQuantumExpired?.(running, context);
+    }
+
+    if (running && (quantumExpired || policy.shouldPreempt?.(running, queue.filter(p => canRunOn(p, core)), context))) {
+      running.state = 'ready';
+      queue.push(running);
+      core.running = null;
+    }
+
+    // Policies choose among the processes allowed on this core
+    const candidates = core.running ? [] : queue.filter(p => canRunOn(p, core));
+    if (candidates.length > 0) {
+      const next = candidates[policy.selectNext(candidates, context)];
+      queue.splice(queue.indexOf(next), 1);
+      next.state = 'running';
+      next.sliceUsed = 0;
+      const switching = core.lastRunId !== null && core.lastRunId !== next.id;
+      if (switching) {
+        contextSwitches++;
+      }
+      // The scheduler's pick and the switch to another process take time before it runs
+      core.pendingOverhead = [
+        ...Array<DispatchOverhead>(schedulerCost).fill('scheduler'),
+        ...Array<DispatchOverhead>(switching ? contextSwitchCost : 0).fill('switch')
+      ];
+      if (next.lastCore !== undefined && next.lastCore !== core.id) {
+        migrations++;
+      }
+      next.lastCore = core.id;
+      core.running = next;
+    }
+  };
+
+  const step = () => {
+    if (isComplete()) return;
+
+    context.currentTime = currentTime;
+    admitArrivals();
+    balanceLoad();
+    policy.onTick?.([...getReadyProcesses(), ...getRunningProcesses()], context);
+    cores.forEach(dispatch);
+
+    // Waiting time only counts time spent ready, not blocked on I/O or between periodic jobs
+    getReadyProcesses().forEach(p => {
+      p.waitingTime++;
+    });
+    serveIo();
+
+    cores.forEach(core => {
+      const overhead = core.pendingOverhead.shift() ?? null;
+      const executing = overhead ? null : core.running;
+      if (overhead) {
+        core.busyTime++;
+        core.overheadTime++;
+        // The process being dispatched waits for it, so turnaround stays waiting plus service time
+        if (core.running) {
+          core.running.waitingTime++;
+        }
+      }
+      if (executing) {
+        if (executing.responseTime === undefined) {
+          executing.responseTime = currentTime - executing.arrivalTime;
+        }
+        executing.remainingTime--;
+        executing.sliceUsed++;
+        core.lastRunId = executing.id;
+        core.busyTime++;
+      }
+      core.lastRun = executing;
+      core.lastOverhead = overhead;
+
+      timeline = appendTimelineSlice(timeline, {
+        processId: executing?.id ?? null,
+        processName: executing?.name ?? null,
+        start: currentTime,
+        end: currentTime + 1,
+        ...(coreCount > 1 ? { core: core.id } : {}),
+        ...(overhead ? { overhead } : {})
+      });
+    });
+
+    currentTime++;
+
+    completeIo();
+    cores.forEach(core => {
+      const executing = core.lastRun;
+      if (executing && executing.remainingTime <= 0) {
+        core.running = null;
+        finishBurst(executing);
+      }
+    });
+    startIo();
+
+    recordDeadlineMisses();
+  };
+
+  const getStatistics = (): Record<string, string | number> => {
+    const busyTimes = cores.map(core => core.busyTime);
+    const busyTime = busyTimes.reduce((sum, time) => sum + time, 0);
+    // Time the cores could have worked, so utilization stays within 100%
+    const capacity = currentTime * coreCount;
+    const idleTime = capacity - busyTime;
+    const arrived = allProcesses.length - pending.length;
+    const rate = (value: number) => (currentTime > 0 ? value / currentTime : 0);
+    const share = (value: number) => (capacity > 0 ? (value / capacity) * 100 : 0);
+
+    const statistics: Record<string, string | number> = {
+      totalProcesses: allProcesses.length,
+      totalTime: currentTime,
+      cpuUtilization: share(busyTime).toFixed(2),
+      avgWaitingTime: average(completed.map(p => p.waitingTime)).toFixed(2),
+      avgTurnaroundTime: average(completed.map(p => p.turnaroundTime ?? 0)).toFixed(2),
+      avgResponseTime: average(completed.map(p => p.responseTime ?? 0)).toFixed(2),
+      avgArrivalsPerStep: rate(arrived).toFixed(2),
+      throughput: rate(completed.length).toFixed(2),
+      contextSwitches
+    };
+
+    // Busy time includes dispatching, effective utilization only counts running processes
+    if (hasOverhead) {
+      const overheadTime = cores.reduce((sum, core) => sum + core.overheadTime, 0);
+      statistics.overheadTime = overheadTime;
+      statistics.overheadPercentage = share(overheadTime).toFixed(2);
+      statistics.effectiveCpuUtilization = share(busyTime - overheadTime).toFixed(2);
+    }
+
+    if (coreCount > 1) {
+      statistics.migrations = migrations;
+      statistics.loadImbalance = computeLoadImbalance(busyTimes).toFixed(2);
+    }
+
+    if (config.showDetailedMetrics) {
+      statistics.cpuIdleTime = idleTime;
+      statistics.cpuIdlePercentage = share(idleTime).toFixed(2);
+      statistics.readyQueueLength = getReadyProcesses().length;
+      statistics.waitingQueueLength = waitingQueue.length;
+      statistics.algorithmType = policy.description.type;
+    }
+
+    return statistics;
+  };
+
+  const toRunningProcess = (process: EngineProcess | null) => {
+    if (!process) return null;
+    return {
+      ...toProcess(process),
+      // Progress through the current CPU burst
+      progress: ((process.bursts[process.burstIndex] - process.remainingTime) / process.bursts[process.burstIndex]) * 100
+    };
+  };
+
+  const getStepData = (): SimulationStepData => {
+    const readyQueue = getReadyProcesses();
+    return {
+      currentTime,
+      processes: allProcesses.map(toProcess),
+      queues: {
+        readyQueue: readyQueue.map(toProcess),
+        levelQueues: policy.getQueueLevels
+          ? Array.from({ length: policy.getQueueLevels(context) }, (_, level) =>
+              readyQueue.filter(p => p.queueLevel === level).map(toProcess)
+            )
+          : undefined,
+        // The first core, for views that show a single CPU
+        runningProcess: toRunningProcess(cores[0].running),
+        cores: coreCount > 1
+          ? cores.map(core => ({
+              id: core.id,
+              runningProcess: toRunningProcess(core.running),
+              readyQueue: perCoreQueues ? core.readyQueue.map(toProcess) : undefined,
+              lastRun: core.lastRun ? { id: core.lastRun.id, name: core.lastRun.name } : null,
+              busyTime: core.busyTime
+            }))
+          : undefined,
+        overhead: hasOverhead ? cores.map(core => core.lastOverhead) : undefined,
+        waitingQueue: waitingQueue.map(toProcess),
+        devices: hasIo
+          ? devices.map(device => ({
+              name: device.name,
+              serviceOrder: device.serviceOrder,
+              servingProcess: device.serving ? toProcess(device.serving) : null,
+              queue: device.queue.map(toProcess),
+              busyTime: device.busyTime
+            }))
+          : undefined,
+        completedProcesses: completed.map(toProcess)
+      },
+      statistics: getStatistics()
+    };
+  };
+
+  const getResults = (): SimulationCompletedData => ({
+    results: allProcesses.map(toProcess),
+    statistics: getStatistics(),
+    timeline
+  });
+
+  return { step, isComplete, getStepData, getResults };
+};
+
+// Run a whole simulation synchronously, returning the same payload as the
+// backend's POST /api/scheduler/simulate endpoint
+export const simulate = (
+  algorithm: string,
+  processes: Process[],
+  config: SimulationConfig = {}
+) => {
+  const engine = createSchedulerEngine(algorithm, processes, config);
+  while (!engine.isComplete()) {
+    engine.step();
+  }
+
+  return {
+    status: 'success',
+    algorithm,
+    ...engine.getResults()
+  };
+};
@@ -0,0 +1,113 @@
+import { Process, SimulationConfig } from '../api';
+
+// Periodic tasks keep releasing jobs until the horizon, which defaults to one
+// hyperperiod after the last task starts, capped so long periods stay tractable
+export const MAX_REALTIME_HORIZON = 1000;
+
+type TaskTiming = Pick<Process, 'arrivalTime' | 'burstTime' | 'period' | 'deadline' | 'wcet'>;
+
+export const isPeriodicTask = (process: Pick<Process, 'period'>): boolean => {
+  return process.period !== undefined && process.period > 0;
+};
+
+// Whether any process has a period or a deadline to meet
+export const hasRealtimeTasks = (processes: Pick<Process, 'period' | 'deadline'>[]): boolean => {
+  return processes.some(p => isPeriodicTask(p) || (p.deadline !== undefined && p.deadline > 0));
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+// Least common multiple of the periods, or Infinity once it exceeds the cap
+const getHyperperiod = (periods: number[]): number => {
+  let hyperperiod = 1;
+  for (const period of periods) {
+    hyperperiod = (hyperperiod / gcd(hyperperiod, period)) * period;
+    if (hyperperiod > MAX_REALTIME_HORIZON) return Infinity;
+  }
+  return hyperperiod;
+};
+
+export const getRealtimeHorizon = (processes: TaskTiming[], config: SimulationConfig = {}): number => {
+  const explicit = Number(config.horizon);
+  if (Number.isFinite(explicit) && explicit > 0) {
+    return Math.min(Math.ceil(explicit), MAX_REALTIME_HORIZON);
+  }
+
+  const periodic = processes.filter(isPeriodicTask);
+  if (periodic.length === 0) return 0;
+  const lastStart = Math.max(...periodic.map(p => Math.ceil(p.arrivalTime)));
+  const hyperperiod = getHyperperiod(periodic.map(p => Math.ceil(p.period as number)));
+  return Math.min(lastStart + hyperperiod, MAX_REALTIME_HORIZON);
+};
+
+// Number of jobs a task releases before the horizon; one-shot processes run once
+export const getJobCount = (process: TaskTiming, horizon: number): number => {
+  if (!isPeriodicTask(process)) return 1;
+  const period = Math.ceil(process.period as number);
+  return Math.max(1, Math.ceil((horizon - Math.ceil(process.arrivalTime)) / period));
+};
+
+export type SchedulabilityVerdict = 'schedulable' | 'not-schedulable' | 'inconclusive';
+
+export interface SchedulabilityResult {
+  taskCount: number;
+  // Sum of WCET / period over the periodic tasks
+  utilization: number;
+  // Sum of WCET / min(deadline, period); equals the utilization for implicit deadlines
+  density: number;
+  // Liu & Layland bound n(2^(1/n) - 1) for rate monotonic scheduling
+  rmBound: number;
+  implicitDeadlines: boolean;
+  rm: SchedulabilityVerdict;
+  edf: SchedulabilityVerdict;
+}
+
+// Liu & Layland utilization tests for the periodic tasks of a workload. The
+// bounds are exact for EDF with implicit deadlines and only sufficient otherwise.
+export const testSchedulability = (processes: TaskTiming[]): SchedulabilityResult | null => {
+  const tasks = processes.filter(isPeriodicTask);
+  if (tasks.length === 0) return null;
+
+  const n = tasks.length;
+  let utilization = 0;
+  let density = 0;
+  let implicitDeadlines = true;
+  tasks.forEach(task => {
+    const period = task.period as number;
+    const deadline = task.deadline ?? period;
+    const wcet = task.wcet ?? task.burstTime;
+    utilization += wcet / period;
+    density += wcet / Math.min(deadline, period);
+    if (deadline !== period) implicitDeadlines = false;
+  });
+  const rmBound = n * (Math.pow(2, 1 / n) - 1);
+
+  const verdict = (sufficient: boolean): SchedulabilityVerdict => {
+    if (utilization > 1) return 'not-schedulable';
+    return sufficient ? 'schedulable' : 'inconclusive';
+  };
+
+  return {
+    taskCount: n,
+    utilization,
+    density,
+    rmBound,
+    implicitDeadlines,
+    // The Liu & Layland bound only covers deadlines equal to the period
+    rm: verdict(implicitDeadlines && utilization <= rmBound),
+    edf: implicitDeadlines
+      ? (utilization <= 1 ? 'schedulable' : 'not-schedulable')
+      : verdict(density <= 1)
+  };
+};
+
+// Deadline misses and lateness over all jobs of the given processes
+export const summarizeDeadlines = (processes: Pick<Process, 'missedDeadlines' | 'maxLateness'>[]) => {
+  const latenesses = processes
+    .map(p => p.maxLateness)
+    .filter((lateness): lateness is number => lateness !== undefined);
+  return {
+    deadlineMisses: processes.reduce((sum, p) => sum + (p.missedDeadlines?.length ?? 0), 0),
+    maxLateness: latenesses.length > 0 ? Math.max(...latenesses) : 0
+  };
+};
@@ -0,0 +1,118 @@
+import { Process, SimulationConfig } from '../api';
+import { SimulationStepData, SimulationCompletedData } from '../socket';
+import { createSchedulerEngine, SchedulerEngine } from './engine';
+
+// Same callbacks the socket connection reports to
+export interface LocalRunnerHandlers {
+  onSimulationStep: (data: SimulationStepData) => void;
+  onSimulationCompleted: (data: SimulationCompletedData) => void;
+  onSimulationError: (error: Error | { message: string }) => void;
+  onSimulationState: (state: string | { state: string; tickSpeed?: number }) => void;
+}
+
+// Real-time simulation driven by a timer instead of the backend socket
+export const createLocalRunner = (handlers: LocalRunnerHandlers) => {
+  let engine: SchedulerEngine | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let stepInterval = 1000;
+
+  const stopTimer = () => {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  const emitStep = () => {
+    if (!engine) return;
+    const data = engine.getStepData();
+    handlers.onSimulationStep({
+      ...data,
+      statistics: { ...data.statistics, tickSpeed: stepInterval }
+    });
+  };
+
+  const tick = () => {
+    if (!engine) return;
+
+    try {
+      engine.step();
+      emitStep();
+
+      if (engine.isComplete()) {
+        stopTimer();
+        handlers.onSimulationCompleted(engine.getResults());
+        engine = null;
+      }
+    } catch (error) {
+      stopTimer();
+      engine = null;
+      handlers.onSimulationError(error instanceof Error ? error : { message: String(error) });
+    }
+  };
+
+  const startTimer = () => {
+    stopTimer();
+    timer = setInterval(tick, stepInterval);
+  };
+
+  return {
+    isActive: () => engine !== null,
+
+    start: (
+      algorithm: string,
+      processes: Process[],
+      interval: number,
+      config: SimulationConfig
+    ) => {
+      stopTimer();
+      stepInterval = interval;
+
+      try {
+        engine = createSchedulerEngine(algorithm, processes, config);
+      } catch (error) {
+        engine = null;
+        handlers.onSimulationError(error instanceof Error ? error : { message: String(error) });
+        return;
+      }
+
+      handlers.onSimulationState({ state: 'running', tickSpeed: stepInterval });
+      emitStep();
+      startTimer();
+    },
+
+    pause: () => {
+      if (!engine) return;
+      stopTimer();
+      handlers.onSimulationState({ state: 'paused', tickSpeed: stepInterval });
+    },
+
+    resume: () => {
+      if (!engine || timer) return;
+      handlers.onSimulationState({ state: 'running', tickSpeed: stepInterval });
+      startTimer();
+    },
+
+    step: () => {
+      if (!engine || timer) return;
+      tick();
+    },
+
+    reset: () => {
+      stopTimer();
+      if (engine) {
+        engine = null;
+        handlers.onSimulationState({ state: 'idle' });
+      }
+    },
+
+    changeTickSpeed: (interval: number) => {
+      stepInterval = interval;
+      if (timer) {
+        startTimer();
+      }
+    }
+  };
+};
+
+export type LocalRunner = ReturnType<typeof createLocalRunner>;
@@ -0,0 +1,148 @@
+import { AlgorithmParameter, Process, SimulationConfig } from '../api';
+import { getIoConfig, IO_PARAMETERS } from './devices';
+
+export type QueueMode = 'global' | 'per-core';
+
+export const DEFAULT_CORE_COUNT = 1;
+export const MAX_CORE_COUNT = 8;
+export const DEFAULT_QUEUE_MODE: QueueMode = 'global';
+export const DEFAULT_LOAD_BALANCE_INTERVAL = 5;
+
+// CPU settings shared by every algorithm, edited with the same form as algorithm parameters
+export const CPU_PARAMETERS: AlgorithmParameter[] = [
+  {
+    name: 'cores',
+    description: 'Number of CPU cores that run processes in parallel.',
+    type: 'range',
+    defaultValue: DEFAULT_CORE_COUNT,
+    min: 1,
+    max: MAX_CORE_COUNT,
+    step: 1
+  },
+  {
+    name: 'queueMode',
+    description: 'One ready queue shared by all cores, or a run queue per core that new processes join on the least loaded core.',
+    type: 'enum',
+    defaultValue: DEFAULT_QUEUE_MODE,
+    options: ['global', 'per-core']
+  },
+  {
+    name: 'loadBalanceInterval',
+    description: 'With per-core queues, every this many time units processes migrate from the busiest to the least loaded core (0 disables balancing).',
+    type: 'number',
+    defaultValue: DEFAULT_LOAD_BALANCE_INTERVAL,
+    min: 0,
+    step: 1
+  },
+  {
+    name: 'contextSwitchCost',
+    description: 'Time units a core spends saving and restoring state when it switches to a different process.',
+    type: 'number',
+    defaultValue: 0,
+    min: 0,
+    step: 1
+  },
+  {
+    name: 'schedulerCost',
+    description: 'Time units the scheduler takes every time it picks the next process for a core, even when the same process continues.',
+    type: 'number',
+    defaultValue: 0,
+    min: 0,
+    step: 1
+  }
+];
+
+// Names of the dispatch overhead settings, which apply with any number of cores
+const OVERHEAD_PARAMETER_NAMES = ['contextSwitchCost', 'schedulerCost'];
+
+// Settings kept apart from the algorithm parameters, including the I/O device settings
+const CPU_PARAMETER_NAMES = [...CPU_PARAMETERS, ...IO_PARAMETERS].map(parameter => parameter.name);
+
+export const getCoreCount = (config: SimulationConfig): number => {
+  const cores = Number(config.cores);
+  return Number.isFinite(cores) && cores >= 1 ? Math.min(Math.floor(cores), MAX_CORE_COUNT) : DEFAULT_CORE_COUNT;
+};
+
+export const getQueueMode = (config: SimulationConfig): QueueMode => {
+  return config.queueMode === 'per-core' ? 'per-core' : DEFAULT_QUEUE_MODE;
+};
+
+export const getLoadBalanceInterval = (config: SimulationConfig): number => {
+  const interval = Number(config.loadBalanceInterval ?? DEFAULT_LOAD_BALANCE_INTERVAL);
+  return Number.isFinite(interval) && interval > 0 ? Math.ceil(interval) : 0;
+};
+
+export const isMultiCore = (config: SimulationConfig): boolean => getCoreCount(config) > 1;
+
+// Whole time units of a dispatch overhead setting, 0 when unset or invalid
+const getCost = (value: SimulationConfig[string]): number => {
+  const cost = Number(value ?? 0);
+  return Number.isFinite(cost) && cost > 0 ? Math.ceil(cost) : 0;
+};
+
+export const getContextSwitchCost = (config: SimulationConfig): number => getCost(config.contextSwitchCost);
+
+export const getSchedulerCost = (config: SimulationConfig): number => getCost(config.schedulerCost);
+
+export const hasDispatchOverhead = (config: SimulationConfig): boolean => {
+  return getContextSwitchCost(config) > 0 || getSchedulerCost(config) > 0;
+};
+
+// Overhead settings that are in effect, so free dispatching leaves configs as they were
+const getOverheadConfig = (config: SimulationConfig): SimulationConfig => {
+  return Object.fromEntries(OVERHEAD_PARAMETER_NAMES
+    .map(name => [name, getCost(config[name])] as const)
+    .filter(([, cost]) => cost > 0));
+};
+
+// CPU settings of a config, without the algorithm parameters
+export const getCpuConfig = (config: SimulationConfig): SimulationConfig => {
+  return Object.fromEntries(
+    Object.entries(config).filter(([name]) => CPU_PARAMETER_NAMES.includes(name))
+  );
+};
+
+// Config with its CPU settings replaced. Single-core settings, free dispatching
+// and default device settings are left out, so such runs keep the configs,
+// labels and result keys they always had.
+export const withCpuConfig = (config: SimulationConfig, cpuConfig: SimulationConfig): SimulationConfig => {
+  const algorithmConfig = {
+    ...Object.fromEntries(Object.entries(config).filter(([name]) => !CPU_PARAMETER_NAMES.includes(name))),
+    ...getOverheadConfig(cpuConfig),
+    ...getIoConfig(cpuConfig)
+  };
+  if (!isMultiCore(cpuConfig)) return algorithmConfig;
+
+  const queueMode = getQueueMode(cpuConfig);
+  return {
+    ...algorithmConfig,
+    cores: getCoreCount(cpuConfig),
+    queueMode,
+    ...(queueMode === 'per-core' ? { loadBalanceInterval: getLoadBalanceInterval(cpuConfig) } : {})
+  };
+};
+
+// Cores a process may run on; an empty or invalid affinity allows every core
+export const resolveAffinity = (affinity: Process['affinity'], cores: number): number[] | undefined => {
+  const allowed = (affinity ?? []).filter(core => Number.isInteger(core) && core >= 0 && core < cores);
+  return allowed.length > 0 && allowed.length < cores ? Array.from(new Set(allowed)).sort((a, b) => a - b) : undefined;
+};
+
+// Affinity as typed in the process table, e.g. "0, 2"
+export const formatAffinity = (affinity: Process['affinity']): string => (affinity ?? []).join(', ');
+
+export const parseAffinity = (text: string): number[] | undefined => {
+  const cores = text
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map(Number)
+    .filter(core => Number.isInteger(core) && core >= 0);
+  return cores.length > 0 ? cores : undefined;
+};
+
+// Percentage by which the busiest core exceeds the average core load
+export const computeLoadImbalance = (busyTimes: number[]): number => {
+  if (busyTimes.length === 0) return 0;
+  const average = busyTimes.reduce((sum, time) => sum + time, 0) / busyTimes.length;
+  return average > 0 ? (Math.max(...busyTimes) / average - 1) * 100 : 0;
+};
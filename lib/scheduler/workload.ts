@@ -0,0 +1,146 @@
+import { Process, ParameterInfo } from '../api';
+import { generateId } from '../utils';
+import { createRandom, generateSeed } from '../random';
+import {
+  clampToInt,
+  sampleExponential,
+  sampleNormal,
+  sampleUniformInt
+} from '../distributions';
+
+// How arrival times are spread: uniformly up to the max arrival time, or as a
+// Poisson process (exponential inter-arrival times)
+export type ArrivalDistribution = 'uniform' | 'exponential';
+
+// How CPU bursts are drawn. Bimodal mixes short-burst I/O-bound processes with
+// long-burst CPU-bound ones.
+export type BurstDistribution = 'uniform' | 'exponential' | 'normal' | 'bimodal';
+
+export interface DistributionSettings {
+  arrivalDistribution: ArrivalDistribution;
+  // Mean arrivals per time unit, for exponential arrivals
+  arrivalRate: number;
+  burstDistribution: BurstDistribution;
+  // Mean CPU burst, for exponential and normal bursts
+  burstMean: number;
+  // Standard deviation of CPU bursts, for normal bursts
+  burstStdDev: number;
+  // Share of I/O-bound processes (0 to 1), for bimodal bursts
+  ioBoundRatio: number;
+}
+
+export const DEFAULT_DISTRIBUTION_SETTINGS: DistributionSettings = {
+  arrivalDistribution: 'uniform',
+  arrivalRate: 0.5,
+  burstDistribution: 'uniform',
+  burstMean: 5,
+  burstStdDev: 2,
+  ioBoundRatio: 0.5
+};
+
+// Whether the settings are the uniform ones the backend generator also uses
+export const isUniformDistribution = (distributions: Partial<DistributionSettings> = {}): boolean => {
+  const { arrivalDistribution, burstDistribution } = { ...DEFAULT_DISTRIBUTION_SETTINGS, ...distributions };
+  return arrivalDistribution === 'uniform' && burstDistribution === 'uniform';
+};
+
+// Generate random processes with the same bounds as GET /api/processes/random.
+// The same seed and settings always give the same processes. Bursts are capped
+// at the max burst times; exponential arrivals ignore the max arrival time.
+export const generateRandomProcesses = (
+  count: number = 5,
+  maxBurstTime: number = 10,
+  maxIoBurstTime: number = 5,
+  maxPriority: number = 10,
+  maxArrivalTime: number = 10,
+  seed: number = generateSeed(),
+  distributions: Partial<DistributionSettings> = {}
+): Process[] => {
+  const random = createRandom(seed);
+  const settings = { ...DEFAULT_DISTRIBUTION_SETTINGS, ...distributions };
+  let lastArrival = 0;
+  
+  const sampleArrival = (index: number): number => {
+    if (settings.arrivalDistribution === 'exponential') {
+      // The first process arrives at time 0, the rest after exponential gaps
+      if (index > 0) {
+        lastArrival += sampleExponential(random, 1 / Math.max(settings.arrivalRate, 1e-6));
+      }
+      return Math.floor(lastArrival);
+    }
+    return sampleUniformInt(random, 0, maxArrivalTime);
+  };
+  
+  // CPU and I/O burst of one process
+  const sampleBursts = (): { burstTime: number; ioBurstTime: number } => {
+    switch (settings.burstDistribution) {
+      case 'exponential':
+        return {
+          burstTime: clampToInt(sampleExponential(random, settings.burstMean), 1, maxBurstTime),
+          ioBurstTime: sampleUniformInt(random, 0, maxIoBurstTime)
+        };
+      case 'normal':
+        return {
+          burstTime: clampToInt(sampleNormal(random, settings.burstMean, settings.burstStdDev), 1, maxBurstTime),
+          ioBurstTime: sampleUniformInt(random, 0, maxIoBurstTime)
+        };
+      case 'bimodal': {
+        // I/O-bound: short CPU bursts, long I/O. CPU-bound: long CPU bursts, little I/O.
+        const shortBurstMax = Math.max(1, Math.floor(maxBurstTime / 4));
+        const longBurstMin = Math.max(1, Math.ceil(maxBurstTime * 0.6));
+        if (random() < settings.ioBoundRatio) {
+          return {
+            burstTime: sampleUniformInt(random, 1, shortBurstMax),
+            ioBurstTime: sampleUniformInt(random, Math.ceil(maxIoBurstTime / 2), maxIoBurstTime)
+          };
+        }
+        return {
+          burstTime: sampleUniformInt(random, longBurstMin, maxBurstTime),
+          ioBurstTime: sampleUniformInt(random, 0, Math.floor(maxIoBurstTime / 4))
+        };
+      }
+      default:
+        return {
+          burstTime: sampleUniformInt(random, 1, maxBurstTime),
+          ioBurstTime: sampleUniformInt(random, 0, maxIoBurstTime)
+        };
+    }
+  };
+  
+  return Array.from({ length: count }, (_, index) => {
+    const arrivalTime = sampleArrival(index);
+    const { burstTime, ioBurstTime } = sampleBursts();
+    return {
+      id: generateId(),
+      name: `Process-${index + 1}`,
+      arrivalTime,
+      burstTime,
+      ioBurstTime,
+      priority: sampleUniformInt(random, 1, maxPriority)
+    };
+  });
+};
+
+// Process parameter descriptions matching GET /api/processes/parameters
+export const LOCAL_PROCESS_PARAMETERS: Record<string, ParameterInfo> = {
+  count: {
+    name: 'Process Count',
+    description: 'Number of processes to generate.'
+  },
+  arrivalTime: {
+    name: 'Arrival Time',
+    description: 'The time at which the process enters the ready queue.'
+  },
+  burstTime: {
+    name: 'Burst Time',
+    description: 'The total CPU time required by the process to complete its execution.'
+  },
+  ioBurstTime: {
+    name: 'I/O Burst Time',
+    description: 'The time the process spends waiting on I/O operations.'
+  },
+  priority: {
+    name: 'Priority',
+    description: 'Scheduling priority of the process. Lower numbers mean higher priority.'
+  }
+};
@@ -0,0 +1,182 @@
+import { SimulationConfig } from './api';
+import { Process } from './store/algorithm-results';
+import { generateId } from './utils';
+import { withBursts } from './scheduler/bursts';
+import { parseAffinity } from './scheduler/smp';
+
+// Query parameter that holds the shared state
+export const SHARE_PARAM = 's';
+
+// Bump when the encoded layout changes; older links keep their own decoder
+export const SHARE_LINK_VERSION = 2;
+
+// Everything a link restores
+export interface SharedState {
+  algorithm: string;
+  config: SimulationConfig;
+  processes: Process[];
+  seed?: number;
+}
+
+// Processes are stored as [name, arrival, burst, ioBurst, priority] tuples to keep links short
+type ProcessTuple = [string, number, number, number, number];
+
+interface SharedStateV1 {
+  v: 1;
+  a: string;
+  c: SimulationConfig;
+  p: ProcessTuple[];
+  s?: number;
+}
+
+// Version 2 appends [period, deadline, wcet, bursts, ioDevices, affinity] to the tuples,
+// null when unset and left out from the last set field on
+type TimedProcessTuple = [
+  ...ProcessTuple,
+  (number | null)?,
+  (number | null)?,
+  (number | null)?,
+  (number[] | null)?,
+  (string[] | null)?,
+  (number[] | null)?
+];
+
+interface SharedStateV2 extends Omit<SharedStateV1, 'v' | 'p'> {
+  v: 2;
+  p: TimedProcessTuple[];
+}
+
+// URL-safe base64 of UTF-8 text, so process names may contain any character
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+export const encodeSharedState = (state: SharedState): string => {
+  const payload: SharedStateV2 = {
+    v: SHARE_LINK_VERSION,
+    a: state.algorithm,
+    c: state.config,
+    p: state.processes.map((process): TimedProcessTuple => {
+      const tuple: ProcessTuple = [
+        process.name,
+        process.arrivalTime,
+        process.burstTime,
+        process.ioBurstTime ?? 0,
+        process.priority ?? 1
+      ];
+      const extra = [
+        process.period ?? null,
+        process.deadline ?? null,
+        process.wcet ?? null,
+        process.bursts ?? null,
+        process.bursts ? process.ioDevices ?? null : null,
+        process.affinity ?? null
+      ] as const;
+      const length = extra.reduce<number>((last, value, index) => (value === null ? last : index + 1), 0);
+      return [...tuple, ...extra.slice(0, length)] as TimedProcessTuple;
+    })
+  };
+  if (state.seed !== undefined) {
+    payload.s = state.seed;
+  }
+  return toBase64Url(JSON.stringify(payload));
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Links may be edited by hand or cut short, so processes get the same bounds as imported workloads
+const decodeProcess = (tuple: TimedProcessTuple): Process => {
+  const [name, arrivalTime, burstTime, ioBurstTime, priority] = tuple;
+  if (typeof name !== 'string' || ![arrivalTime, burstTime, ioBurstTime, priority].every(isFiniteNumber)) {
+    throw new Error('Malformed process in shared state');
+  }
+  if (arrivalTime < 0 || burstTime < 1 || ioBurstTime < 0 || priority < 1) {
+    throw new Error(`Process "${name}" in shared state is out of range`);
+  }
+  return { id: generateId(), name, arrivalTime, burstTime, ioBurstTime, priority };
+};
+
+const decodeV1 = (payload: SharedStateV1 | SharedStateV2, decode: (tuple: TimedProcessTuple) => Process = decodeProcess): SharedState => {
+  if (typeof payload.a !== 'string' || typeof payload.c !== 'object' || payload.c === null || !Array.isArray(payload.p)) {
+    throw new Error('Malformed shared state');
+  }
+
+  const processes = payload.p.map(decode);
+
+  return {
+    algorithm: payload.a,
+    config: payload.c,
+    processes,
+    seed: isFiniteNumber(payload.s) ? payload.s : undefined
+  };
+};
+
+// Same layout as version 1, with optional timing, burst and affinity fields on every process
+const decodeV2 = (payload: SharedStateV2): SharedState => decodeV1(payload, tuple => {
+  const process = decodeProcess(tuple);
+  const timing = (value: unknown) => {
+    if (!isFiniteNumber(value)) return undefined;
+    if (value < 1) throw new Error(`Timing of process "${process.name}" in shared state is out of range`);
+    return value;
+  };
+  const [bursts, ioDevices, affinity] = [tuple[8], tuple[9], tuple[10]];
+  const decoded = {
+    ...process,
+    period: timing(tuple[5]),
+    deadline: timing(tuple[6]),
+    wcet: timing(tuple[7]),
+    affinity: Array.isArray(affinity) ? parseAffinity(affinity.join(' ')) : undefined
+  };
+  if (!Array.isArray(bursts) || !bursts.every(isFiniteNumber)) return decoded;
+  if (bursts.length % 2 === 0 || bursts.some(burst => burst < 1)) {
+    throw new Error(`Bursts of process "${process.name}" in shared state are malformed`);
+  }
+  return withBursts({ ...decoded, ioDevices: Array.isArray(ioDevices) ? ioDevices.map(String) : undefined }, bursts);
+});
+
+// Decode a link payload, throwing on unknown versions or malformed data
+export const decodeSharedState = (encoded: string): SharedState => {
+  const payload = JSON.parse(fromBase64Url(encoded));
+
+  switch (payload?.v) {
+    case 1:
+      return decodeV1(payload as SharedStateV1);
+    case 2:
+      return decodeV2(payload as SharedStateV2);
+    default:
+      throw new Error(`Unsupported share link version: ${payload?.v}`);
+  }
+};
+
+// Link to the current page that restores the given state
+export const buildShareUrl = (state: SharedState): string => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(SHARE_PARAM, encodeSharedState(state));
+  return url.toString();
+};
+
+// Shared state in the current URL, or null when there is none or it can't be read
+export const readSharedStateFromUrl = (): SharedState | null => {
+  const encoded = new URLSearchParams(window.location.search).get(SHARE_PARAM);
+  if (!encoded) return null;
+
+  try {
+    return decodeSharedState(encoded);
+  } catch (error) {
+    console.error('Failed to read shared link:', error);
+    return null;
+  }
+};
@@ -1,19 +1,53 @@
 import { io, Socket } from 'socket.io-client';
-import { Process, SimulationConfig } from './api';
+import { Process, SimulationConfig, requiresLocalEngine } from './api';
+import { createLocalRunner, LocalRunner } from './scheduler/runner';
+import { DispatchOverhead, TimelineSlice } from './timeline';
 
 // Use environment variable with fallback
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
 
 let socket: Socket | null = null;
 
+// In-browser runner used while the backend is unreachable
+let localRunner: LocalRunner | null = null;
+
+// Which engine executes real-time simulations
+export type SimulationEngine = 'backend' | 'local';
+
+// Controls go to the local runner while it owns a simulation or the backend is down
+const isLocal = () => Boolean(localRunner?.isActive() || !socket?.connected);
+
 // Define the types for our socket data
+// State of one CPU core in a multi-core simulation
+export interface SimulationCoreData {
+  id: number;
+  runningProcess: (Process & { progress?: number }) | null;
+  readyQueue?: Process[]; // Only when every core has its own run queue
+  lastRun?: { id: string; name: string } | null; // Process that ran during the last time unit
+  busyTime: number;
+}
+
+// State of one I/O device in a simulation with burst sequences
+export interface SimulationDeviceData {
+  name: string;
+  serviceOrder: string;
+  servingProcess: Process | null;
+  queue: Process[]; // Requests waiting for the device, in arrival order
+  busyTime: number;
+}
+
 export interface SimulationStepData {
   currentTime: number;
   processes?: Process[];
   queues?: {
     readyQueue?: Process[];
-    runningProcess?: Process | null;
+    levelQueues?: Process[][]; // Ready queue split by level for multi-level algorithms
+    runningProcess?: (Process & { progress?: number }) | null;
+    cores?: SimulationCoreData[]; // One entry per core in multi-core simulations
+    // Dispatch work each core did during the last time unit, when dispatching has a cost
+    overhead?: (DispatchOverhead | null)[];
     waitingQueue?: Process[];
+    devices?: SimulationDeviceData[]; // I/O devices, when processes have burst sequences
     completedProcesses?: Process[];
   };
   statistics?: Record<string, string | number>;
@@ -22,6 +56,7 @@ export interface SimulationStepData {
 export interface SimulationCompletedData {
   results: Process[];
   statistics: Record<string, string | number>;
+  timeline?: TimelineSlice[]; // Only provided by the in-browser engine
 }
 
 // Initialize socket connection
@@ -29,13 +64,22 @@ export const initializeSocket = (
   onSimulationStep: (data: SimulationStepData) => void,
   onSimulationCompleted: (data: SimulationCompletedData) => void,
   onSimulationError: (error: Error | { message: string }) => void,
-  onSimulationState: (state: string | { state: string; tickSpeed?: number }) => void
+  onSimulationState: (state: string | { state: string; tickSpeed?: number }) => void,
+  onEngineChange?: (engine: SimulationEngine) => void
 ) => {
   if (socket) {
     console.log('Disconnecting existing socket');
     socket.disconnect();
   }
 
+  localRunner?.reset();
+  localRunner = createLocalRunner({
+    onSimulationStep,
+    onSimulationCompleted,
+    onSimulationError,
+    onSimulationState
+  });
+
   console.log('Connecting to socket server at:', API_URL);
   try {
     socket = io(API_URL, {
@@ -47,11 +91,17 @@ export const initializeSocket = (
     // Setup event listeners
     socket.on('connect', () => {
       console.log('Socket connected successfully with ID:', socket?.id);
+      onEngineChange?.('backend');
     });
     
+    // Without a backend, real-time simulations run in the browser instead
     socket.on('connect_error', (err) => {
-      console.error('Socket connection error:', err);
-      onSimulationError({message: `Failed to connect to simulation server: ${err.message}`});
+      console.warn('Socket connection error, using in-browser engine:', err.message);
+      onEngineChange?.('local');
+    });
+    
+    socket.on('disconnect', () => {
+      onEngineChange?.('local');
     });
     
     socket.on('simulation-step', onSimulationStep);
@@ -73,10 +123,16 @@ export const startSimulation = (
   stepInterval: number = 1000,
   config: SimulationConfig = {}
 ) => {
-  if (!socket) {
+  if (!socket || !localRunner) {
     throw new Error('Socket not initialized. Call initializeSocket first.');
   }
 
+  if (!socket.connected || requiresLocalEngine(algorithm, processes, config)) {
+    localRunner.start(algorithm, processes, stepInterval, config);
+    return;
+  }
+
+  localRunner.reset();
   socket.emit('start-simulation', {
     algorithm,
     processes,
@@ -87,6 +143,11 @@ export const startSimulation = (
 
 // Pause the simulation
 export const pauseSimulation = () => {
+  if (localRunner && isLocal()) {
+    localRunner.pause();
+    return;
+  }
+
   if (!socket) {
     throw new Error('Socket not initialized');
   }
@@ -96,6 +157,11 @@ export const pauseSimulation = () => {
 
 // Resume the simulation
 export const resumeSimulation = () => {
+  if (localRunner && isLocal()) {
+    localRunner.resume();
+    return;
+  }
+
   if (!socket) {
     throw new Error('Socket not initialized');
   }
@@ -105,6 +171,11 @@ export const resumeSimulation = () => {
 
 // Execute a single step in the simulation
 export const stepSimulation = () => {
+  if (localRunner && isLocal()) {
+    localRunner.step();
+    return;
+  }
+
   if (!socket) {
     throw new Error('Socket not initialized');
   }
@@ -114,6 +185,11 @@ export const stepSimulation = () => {
 
 // Reset the simulation
 export const resetSimulation = () => {
+  if (localRunner && isLocal()) {
+    localRunner.reset();
+    return;
+  }
+
   if (!socket) {
     throw new Error('Socket not initialized');
   }
@@ -123,6 +199,11 @@ export const resetSimulation = () => {
 
 // Change the simulation tick speed
 export const changeTickSpeed = (stepInterval: number) => {
+  if (localRunner && isLocal()) {
+    localRunner.changeTickSpeed(stepInterval);
+    return;
+  }
+
   if (!socket) {
     throw new Error('Socket not initialized');
   }
@@ -134,6 +215,9 @@ export const changeTickSpeed = (stepInterval: number) => {
 
 // Clean up the socket connection
 export const cleanupSocket = () => {
+  localRunner?.reset();
+  localRunner = null;
+
   if (socket) {
     socket.disconnect();
     socket = null;
@@ -0,0 +1,174 @@
+// Descriptive statistics and significance tests for comparing experiment samples
+
+export interface SampleSummary {
+  n: number;
+  mean: number;
+  stdDev: number;
+  // Bounds of the 95% confidence interval of the mean
+  ciLow: number;
+  ciHigh: number;
+}
+
+export interface PairedTestResult {
+  // Mean of a - b over all pairs
+  meanDifference: number;
+  t: number;
+  df: number;
+  // Two-sided p-value; NaN when the test is undefined (fewer than two pairs)
+  pValue: number;
+}
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export const mean = (values: number[]): number => {
+  if (values.length === 0) return NaN;
+  return values.reduce((acc, val) => acc + val, 0) / values.length;
+};
+
+// Sample standard deviation (n - 1 in the denominator)
+export const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  const variance = values.reduce((acc, val) => acc + Math.pow(val - m, 2), 0) / (values.length - 1);
+  return Math.sqrt(variance);
+};
+
+// Percentile (0-100) with linear interpolation between the closest ranks
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+// Jain's fairness index: 1 when all values are equal, 1/n when one value takes everything
+export const jainFairnessIndex = (values: number[]): number => {
+  if (values.length === 0) return NaN;
+  const sum = values.reduce((acc, val) => acc + val, 0);
+  const sumOfSquares = values.reduce((acc, val) => acc + val * val, 0);
+  return sumOfSquares === 0 ? 1 : (sum * sum) / (values.length * sumOfSquares);
+};
+
+// Natural log of the gamma function (Lanczos approximation)
+const logGamma = (x: number): number => {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  coefficients.forEach(c => {
+    y += 1;
+    series += c / y;
+  });
+  return -tmp + Math.log(2.5066282746310005 * series / x);
+};
+
+// Continued fraction for the incomplete beta function (Numerical Recipes betacf)
+const betaContinuedFraction = (a: number, b: number, x: number): number => {
+  const maxIterations = 200;
+  const epsilon = 3e-14;
+  const tiny = 1e-300;
+
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+  return result;
+};
+
+// Regularized incomplete beta function I_x(a, b)
+const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  // The continued fraction converges quickly only on one side of the mean
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(a, b, x) / a
+    : 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+};
+
+// Two-sided p-value of Student's t statistic with df degrees of freedom
+export const studentTPValue = (t: number, df: number): number => {
+  if (!Number.isFinite(t)) return 0;
+  return incompleteBeta(df / (df + t * t), df / 2, 0.5);
+};
+
+// Critical t value for a two-sided test at the given significance level
+export const studentTCritical = (df: number, alpha = SIGNIFICANCE_LEVEL): number => {
+  // p-value falls as t grows, so bisect on t
+  let low = 0;
+  let high = 1000;
+  for (let i = 0; i < 100; i++) {
+    const middle = (low + high) / 2;
+    if (studentTPValue(middle, df) > alpha) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+};
+
+// Mean, standard deviation and 95% confidence interval (Student's t) of a sample
+export const summarizeSample = (values: number[]): SampleSummary => {
+  const n = values.length;
+  const m = mean(values);
+  const stdDev = standardDeviation(values);
+  const margin = n > 1 ? studentTCritical(n - 1) * stdDev / Math.sqrt(n) : 0;
+
+  return { n, mean: m, stdDev, ciLow: m - margin, ciHigh: m + margin };
+};
+
+// Paired t-test of two samples measured on the same workloads, pair by pair
+export const pairedTTest = (a: number[], b: number[]): PairedTestResult => {
+  const differences = a.slice(0, b.length).map((value, i) => value - b[i]);
+  const n = differences.length;
+  const meanDifference = mean(differences);
+
+  if (n < 2) {
+    return { meanDifference, t: NaN, df: Math.max(n - 1, 0), pValue: NaN };
+  }
+
+  const standardError = standardDeviation(differences) / Math.sqrt(n);
+  // Identical differences on every workload: any non-zero gap is certain
+  if (standardError === 0) {
+    return {
+      meanDifference,
+      t: meanDifference === 0 ? 0 : Math.sign(meanDifference) * Infinity,
+      df: n - 1,
+      pValue: meanDifference === 0 ? 1 : 0
+    };
+  }
+
+  const t = meanDifference / standardError;
+  return { meanDifference, t, df: n - 1, pValue: studentTPValue(t, n - 1) };
+};
@@ -1,4 +1,8 @@
 import { create } from 'zustand';
+import { SimulationConfig } from '../api';
+import { formatParameterSummary } from '../algorithm-parameters';
+import { hashString } from '../utils';
+import { useRunHistoryStore } from './run-history';
 
 // Types for process data
 export interface Process {
@@ -7,6 +11,7 @@ export interface Process {
   arrivalTime: number;
   burstTime: number;
   priority?: number;
+  queueLevel?: number;
   ioBurstTime?: number;
   waitingTime?: number;
   turnaroundTime?: number;
@@ -14,6 +19,19 @@ export interface Process {
   completionTime?: number;
   remainingTime?: number;
   state?: 'new' | 'ready' | 'running' | 'blocked' | 'terminated';
+  // Real-time task model, see the Process type in lib/api.ts
+  period?: number;
+  deadline?: number;
+  wcet?: number;
+  missedDeadlines?: number[];
+  maxLateness?: number;
+  affinity?: number[];
+  // Burst sequence, see the Process type in lib/api.ts
+  bursts?: number[];
+  ioDevices?: string[];
+  burstIndex?: number;
+  ioRemainingTime?: number;
+  ioDevice?: string;
 }
 
 // Types for algorithm statistics
@@ -26,6 +44,14 @@ export interface AlgorithmStatistics {
   avgResponseTime: string;
   avgArrivalsPerStep: string;
   throughput: string;
+  contextSwitches: number;
+  // Only reported by multi-core simulations
+  migrations?: number;
+  loadImbalance?: string;
+  // Only reported when scheduling or context switches take time
+  overheadTime?: number;
+  overheadPercentage?: string;
+  effectiveCpuUtilization?: string;
 }
 
 // Types for algorithm results
@@ -34,9 +60,66 @@ export interface AlgorithmResult {
   algorithm: string;
   processes: Process[];
   statistics: AlgorithmStatistics;
+  // Algorithm parameters and submitted workload, so the run can be reproduced
+  config: SimulationConfig;
+  workload: Process[];
+  // Seed the workload was generated from, when it was generated rather than edited
+  seed?: number;
   timestamp: number;
 }
 
+// Fingerprint of the scheduling-relevant fields of a workload, in submission order
+export const getWorkloadFingerprint = (workload: Process[]): string => {
+  return hashString(JSON.stringify(workload.map(p => [
+    p.name,
+    p.arrivalTime,
+    p.burstTime,
+    p.ioBurstTime ?? 0,
+    p.priority ?? 0,
+    // Only real-time tasks carry timing constraints; leaves other fingerprints unchanged
+    ...(p.period !== undefined || p.deadline !== undefined || p.wcet !== undefined
+      ? [p.period ?? 0, p.deadline ?? 0, p.wcet ?? 0]
+      : []),
+    // Likewise only processes with several bursts add their sequence
+    ...(p.bursts ? [p.bursts] : []),
+    ...(p.ioDevices ? [p.ioDevices] : []),
+    // Tagged, since a core list reads like a burst sequence
+    ...(p.affinity?.length ? [{ affinity: p.affinity }] : [])
+  ])));
+};
+
+// Results with the same algorithm, config and workload are the same experiment
+export const getResultKey = (result: Pick<AlgorithmResult, 'algorithm' | 'config' | 'workload'>): string => {
+  return [
+    result.algorithm,
+    formatParameterSummary(result.config ?? {}),
+    getWorkloadFingerprint(result.workload ?? [])
+  ].join('|');
+};
+
+// Labels that tell results apart, e.g. "RR (q=2)" vs "RR (q=8)". Workloads are
+// numbered in order of first appearance once more than one is being compared.
+export const getResultLabels = (results: AlgorithmResult[]): Record<string, string> => {
+  const workloads: string[] = [];
+  results.forEach(result => {
+    const fingerprint = getWorkloadFingerprint(result.workload ?? []);
+    if (!workloads.includes(fingerprint)) {
+      workloads.push(fingerprint);
+    }
+  });
+  
+  return Object.fromEntries(results.map(result => {
+    const details = [formatParameterSummary(result.config ?? {})];
+    if (workloads.length > 1) {
+      const workloadNumber = workloads.indexOf(getWorkloadFingerprint(result.workload ?? [])) + 1;
+      details.push(`workload ${workloadNumber}`);
+    }
+    
+    const suffix = details.filter(Boolean).join(', ');
+    return [result.id, suffix ? `${result.algorithm} (${suffix})` : result.algorithm];
+  }));
+};
+
 // Store interface
 interface AlgorithmResultsState {
   results: AlgorithmResult[];
@@ -50,21 +133,27 @@ interface AlgorithmResultsState {
 export const useAlgorithmResultsStore = create<AlgorithmResultsState>()((set, get) => ({
   results: [],
   
-  addResult: (result) => set((state) => {
-    // If result with same algorithm exists, replace it
-    const existingResultIndex = state.results.findIndex(r => r.algorithm === result.algorithm);
+  addResult: (result) => {
+    set((state) => {
+      // If a result of the same algorithm, config and workload exists, replace it
+      const resultKey = getResultKey(result);
+      const existingResultIndex = state.results.findIndex(r => getResultKey(r) === resultKey);
+      
+      if (existingResultIndex !== -1) {
+        // Create a new array with the same elements but replace the existing result
+        // This ensures a new reference is created, triggering re-renders
+        const newResults = [...state.results];
+        newResults[existingResultIndex] = result;
+        return { results: newResults };
+      } else {
+        // Add new result to a new array reference
+        return { results: [...state.results, result] };
+      }
+    });
     
-    if (existingResultIndex !== -1) {
-      // Create a new array with the same elements but replace the existing result
-      // This ensures a new reference is created, triggering re-renders
-      const newResults = [...state.results];
-      newResults[existingResultIndex] = result;
-      return { results: newResults };
-    } else {
-      // Add new result to a new array reference
-      return { results: [...state.results, result] };
-    }
-  }),
+    // Every result is also kept in the persistent run history, recorded once this store is updated
+    useRunHistoryStore.getState().addRun(result, getResultLabels([result])[result.id]);
+  },
   
   clearResults: () => set({ results: [] }),
   
@@ -0,0 +1,96 @@
+import { create } from 'zustand';
+import { AlgorithmResult } from './algorithm-results';
+import {
+  StoredRun,
+  createStoredRun,
+  deleteRun,
+  isHistoryAvailable,
+  listRuns,
+  saveRun
+} from '../history-db';
+
+// Store interface
+interface RunHistoryState {
+  runs: StoredRun[];
+  loaded: boolean;
+  error: string | null;
+  loadRuns: () => Promise<void>;
+  addRun: (result: AlgorithmResult, name?: string) => Promise<void>;
+  renameRun: (id: string, name: string) => Promise<void>;
+  setRunTags: (id: string, tags: string[]) => Promise<void>;
+  removeRun: (id: string) => Promise<void>;
+}
+
+// Runs persisted in IndexedDB, newest first
+export const useRunHistoryStore = create<RunHistoryState>()((set, get) => {
+  // Apply a change to a run locally and write it back to the database
+  const updateRun = async (id: string, changes: Partial<Pick<StoredRun, 'name' | 'tags'>>) => {
+    const run = get().runs.find(r => r.id === id);
+    if (!run) return;
+
+    const updated = { ...run, ...changes };
+    set(state => ({ runs: state.runs.map(r => (r.id === id ? updated : r)) }));
+
+    try {
+      await saveRun(updated);
+    } catch (error) {
+      console.error('Failed to update saved run:', error);
+      set({ error: 'Failed to update the saved run' });
+    }
+  };
+
+  return {
+    runs: [],
+    loaded: false,
+    error: null,
+
+    loadRuns: async () => {
+      if (!isHistoryAvailable()) {
+        set({ loaded: true, error: 'Run history is not available in this browser' });
+        return;
+      }
+
+      try {
+        const runs = await listRuns();
+        // Keep runs added while the database was being read
+        const pending = get().runs.filter(r => !runs.some(saved => saved.id === r.id));
+        set({ runs: [...pending, ...runs], loaded: true, error: null });
+      } catch (error) {
+        console.error('Failed to load run history:', error);
+        set({ loaded: true, error: 'Failed to load run history' });
+      }
+    },
+
+    addRun: async (result, name) => {
+      // Reopened runs are already saved
+      if (get().runs.some(r => r.id === result.id)) return;
+
+      const run = createStoredRun(result, name);
+      set(state => ({ runs: [run, ...state.runs] }));
+
+      if (!isHistoryAvailable()) return;
+
+      try {
+        await saveRun(run);
+      } catch (error) {
+        console.error('Failed to save run:', error);
+        set({ error: 'Failed to save the run' });
+      }
+    },
+
+    renameRun: (id, name) => updateRun(id, { name }),
+
+    setRunTags: (id, tags) => updateRun(id, { tags }),
+
+    removeRun: async (id) => {
+      set(state => ({ runs: state.runs.filter(r => r.id !== id) }));
+
+      try {
+        await deleteRun(id);
+      } catch (error) {
+        console.error('Failed to delete saved run:', error);
+        set({ error: 'Failed to delete the saved run' });
+      }
+    }
+  };
+});
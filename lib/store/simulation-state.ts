@@ -1,12 +1,39 @@
+import { useMemo } from 'react';
 import { create } from 'zustand';
 import { Process } from './algorithm-results';
+import { SimulationConfig } from '../api';
 import { SimulationStepData } from '../socket';
+import { appendTimelineSlice, DispatchOverhead, TimelineSlice } from '../timeline';
+import { DEFAULT_DISTRIBUTION_SETTINGS, DistributionSettings } from '../scheduler/workload';
+import { getCpuConfig, withCpuConfig } from '../scheduler/smp';
+
+// State of one CPU core in a multi-core simulation
+export interface CoreState {
+  id: number;
+  runningProcess: (Process & { progress?: number }) | null;
+  readyQueue?: Process[]; // Only when every core has its own run queue
+  busyTime: number;
+}
+
+// State of one I/O device in a simulation with burst sequences
+export interface DeviceState {
+  name: string;
+  serviceOrder: string;
+  servingProcess: Process | null;
+  queue: Process[]; // Requests waiting for the device, in arrival order
+  busyTime: number;
+}
 
 // Queue structure for simulation
 export interface SimulationQueues {
   readyQueue: Process[];
+  levelQueues?: Process[][]; // Ready queue split by level for multi-level algorithms
   runningProcess: (Process & { progress?: number }) | null;
+  cores?: CoreState[]; // One entry per core in multi-core simulations
+  // Dispatch work each core did during the last time unit, when dispatching has a cost
+  overhead?: (DispatchOverhead | null)[];
   waitingQueue: Process[];
+  devices?: DeviceState[]; // I/O devices, when processes have burst sequences
   completedProcesses: Process[];
 }
 
@@ -24,6 +51,11 @@ export interface SimulationState {
   };
   detailedMetrics?: {
     contextSwitches?: number;
+    migrations?: number;
+    loadImbalance?: string;
+    overheadTime?: number;
+    overheadPercentage?: string;
+    effectiveCpuUtilization?: string;
     cpuIdleTime?: number;
     cpuIdlePercentage?: string;
     readyQueueLength?: number;
@@ -31,23 +63,49 @@ export interface SimulationState {
     algorithmType?: string;
     tickSpeed?: number;
   };
+  // Executed schedule, built from step updates or taken from one-shot results
+  timeline: TimelineSlice[];
+  // Seed the processes were generated from; cleared once they are edited by hand
+  workloadSeed?: number;
   algorithm: string;
-  algorithmConfig: {
-    timeQuantum?: number;
-    showDetailedMetrics?: boolean;
-  };
+  algorithmConfig: SimulationConfig;
   status: 'idle' | 'running' | 'paused' | 'completed';
 }
 
+// Settings of the random process generator
+export interface GeneratorSettings extends DistributionSettings {
+  processCount: number;
+  maxBurstTime: number;
+  maxIoBurstTime: number;
+  maxPriority: number;
+  maxArrivalTime: number;
+  // Fixed seed for reproducible workloads, or undefined for a fresh seed every time
+  seed?: number;
+}
+
 // Store interface
 interface SimulationStateStore {
   simulation: SimulationState;
+  // Step updates of the current real-time run, oldest first
+  history: SimulationStepData[];
+  // Position in history being viewed, or null to follow the live simulation
+  historyIndex: number | null;
+  // Last parameters chosen for each algorithm, used when running several algorithms
+  algorithmConfigs: Record<string, SimulationConfig>;
+  // Shared by the process generator and experiments that draw many workloads
+  generatorSettings: GeneratorSettings;
+  // CPU settings (core count, queue mode, load balancing) applied to every algorithm's config
+  cpuConfig: SimulationConfig;
   updateSimulation: (state: Partial<SimulationState>) => void;
   resetSimulation: () => void;
-  setAlgorithm: (algorithm: string, config?: { timeQuantum?: number }) => void;
-  setProcesses: (processes: Process[]) => void;
+  setAlgorithm: (algorithm: string, config?: SimulationConfig) => void;
+  setProcesses: (processes: Process[], seed?: number) => void;
+  setGeneratorSettings: (settings: Partial<GeneratorSettings>) => void;
+  setCpuConfig: (config: SimulationConfig) => void;
   updateSimulationStep: (data: SimulationStepData) => void;
   setStatus: (status: 'idle' | 'running' | 'paused' | 'completed') => void;
+  seekHistory: (index: number | null) => void;
+  stepHistory: (delta: number) => void;
 }
 
 // Initial state
@@ -68,104 +126,280 @@ const initialState: SimulationState = {
     throughput: '0.00'
   },
   detailedMetrics: {},
+  timeline: [],
   algorithm: 'FCFS',
   algorithmConfig: {},
   status: 'idle'
 };
 
+// Merge a step update into the simulation state
+const applySimulationStep = (prev: SimulationState, data: SimulationStepData): SimulationState => {
+  // Extract detailed metrics if they exist
+  const detailedMetrics: Record<string, string | number> = {};
+  if (data.statistics) {
+    // Add detailed metrics if they exist
+    ['contextSwitches', 'migrations', 'loadImbalance', 'overheadTime', 'overheadPercentage', 'effectiveCpuUtilization',
+     'cpuIdleTime', 'cpuIdlePercentage', 'readyQueueLength', 'waitingQueueLength', 'algorithmType', 'tickSpeed'].forEach(key => {
+      if (data.statistics && data.statistics[key] !== undefined) {
+        detailedMetrics[key] = data.statistics[key];
+      }
+    });
+  }
+  
+  // Ensure all processes have an id (convert undefined to empty string if needed)
+  const safeProcesses = Array.isArray(data.processes)
+    ? data.processes.map(p => ({
+        ...p,
+        id: p.id || `process-${Math.random().toString(36).substring(2, 9)}`
+      }))
+    : prev.processes;
+  
+  // Similarly ensure all processes in queues have an id
+  const safeReadyQueue = data.queues?.readyQueue
+    ? data.queues.readyQueue.map(p => ({...p, id: p.id || `process-${Math.random().toString(36).substring(2, 9)}`}))
+    : prev.queues.readyQueue;
+  
+  const safeWaitingQueue = Array.isArray(data.queues?.waitingQueue)
+    ? data.queues.waitingQueue.map(p => ({...p, id: p.id || `process-${Math.random().toString(36).substring(2, 9)}`}))
+    : prev.queues.waitingQueue;
+  
+  const safeCompletedProcesses = Array.isArray(data.queues?.completedProcesses)
+    ? data.queues.completedProcesses.map(p => ({...p, id: p.id || `process-${Math.random().toString(36).substring(2, 9)}`}))
+    : prev.queues.completedProcesses;
+  
+  // Per-level ready queues only exist for multi-level algorithms
+  const safeLevelQueues = data.queues
+    ? data.queues.levelQueues?.map(queue => queue.map(p => ({...p, id: p.id || `process-${Math.random().toString(36).substring(2, 9)}`})))
+    : prev.queues.levelQueues;
+  
+  // Multi-core simulations report every core; single-CPU updates leave the field out
+  const safeCores = data.queues
+    ? data.queues.cores?.map(core => ({
+        id: core.id,
+        runningProcess: core.runningProcess
+          ? {...core.runningProcess, id: core.runningProcess.id || `process-${Math.random().toString(36).substring(2, 9)}`}
+          : null,
+        readyQueue: core.readyQueue?.map(p => ({...p, id: p.id || `process-${Math.random().toString(36).substring(2, 9)}`})),
+        busyTime: core.busyTime
+      }))
+    : prev.queues.cores;
+  
+  // Only simulations with burst sequences report I/O devices
+  const safeDevices = data.queues
+    ? data.queues.devices?.map(device => ({
+        ...device,
+        servingProcess: device.servingProcess
+          ? {...device.servingProcess, id: device.servingProcess.id || `process-${Math.random().toString(36).substring(2, 9)}`}
+          : null,
+        queue: device.queue.map(p => ({...p, id: p.id || `process-${Math.random().toString(36).substring(2, 9)}`}))
+      }))
+    : prev.queues.devices;
+  
+  // Handle running process if present (an explicit null means the CPU is idle)
+  const safeRunningProcess = data.queues?.runningProcess
+    ? {...data.queues.runningProcess, id: data.queues.runningProcess.id || `process-${Math.random().toString(36).substring(2, 9)}`}
+    : data.queues?.runningProcess === null
+      ? null
+      : prev.queues.runningProcess;
+  
+  // Only reported when dispatching has a cost
+  const overhead = data.queues ? data.queues.overhead : prev.queues.overhead;
+  
+  // Extend the timeline with whatever ran since the previous frame.
+  // Processes are matched by name when the backend sends them without ids.
+  let timeline = prev.timeline;
+  if (data.queues) {
+    const previousTime = prev.currentTime;
+    if (data.currentTime <= 0 || data.currentTime < previousTime) {
+      // A new simulation started
+      timeline = [];
+    } else if (data.currentTime > previousTime && data.queues.cores) {
+      // Each core reports what it ran, including processes that completed since
+      data.queues.cores.forEach(core => {
+        const coreOverhead = data.queues?.overhead?.[core.id];
+        timeline = appendTimelineSlice(timeline, {
+          processId: core.lastRun?.id ?? null,
+          processName: core.lastRun?.name ?? null,
+          start: previousTime,
+          end: data.currentTime,
+          core: core.id,
+          ...(coreOverhead ? { overhead: coreOverhead } : {})
+        });
+      });
+    } else if (data.currentTime > previousTime && data.queues.overhead?.[0]) {
+      // The CPU was dispatching, so the process shown as running hasn't run yet
+      timeline = appendTimelineSlice(timeline, {
+        processId: null,
+        processName: null,
+        start: previousTime,
+        end: data.currentTime,
+        overhead: data.queues.overhead[0]
+      });
+    } else if (data.currentTime > previousTime) {
+      const previouslyCompleted = new Set(
+        prev.queues.completedProcesses.map(p => p.name)
+      );
+      const previouslyBlocked = new Set(prev.queues.waitingQueue.map(p => p.name));
+      // A process that finished or blocked on I/O during this tick is no longer reported as running
+      const executed = data.queues.runningProcess ?? data.queues.completedProcesses?.find(
+        p => !previouslyCompleted.has(p.name) && p.completionTime === data.currentTime
+      ) ?? data.queues.waitingQueue?.find(p => !previouslyBlocked.has(p.name));
+      timeline = appendTimelineSlice(timeline, {
+        processId: executed ? executed.id || executed.name : null,
+        processName: executed?.name ?? null,
+        start: previousTime,
+        end: data.currentTime
+      });
+    }
+  }
+  
+  return {
+    ...prev,
+    currentTime: data.currentTime ?? prev.currentTime,
+    timeline,
+    processes: safeProcesses,
+    queues: {
+      ...prev.queues,
+      readyQueue: safeReadyQueue,
+      levelQueues: safeLevelQueues,
+      runningProcess: safeRunningProcess,
+      cores: safeCores,
+      overhead,
+      waitingQueue: safeWaitingQueue,
+      devices: safeDevices,
+      completedProcesses: safeCompletedProcesses
+    },
+    statistics: {
+      ...prev.statistics,
+      cpuUtilization: data.statistics?.cpuUtilization?.toString() ?? prev.statistics.cpuUtilization,
+      avgWaitingTime: data.statistics?.avgWaitingTime?.toString() ?? prev.statistics.avgWaitingTime,
+      avgTurnaroundTime: data.statistics?.avgTurnaroundTime?.toString() ?? prev.statistics.avgTurnaroundTime,
+      avgResponseTime: data.statistics?.avgResponseTime?.toString() ?? prev.statistics.avgResponseTime,
+      throughput: data.statistics?.throughput?.toString() ?? prev.statistics.throughput
+    },
+    // Add detailed metrics if they exist
+    detailedMetrics: Object.keys(detailedMetrics).length > 0
+      ? detailedMetrics
+      : prev.detailedMetrics
+  };
+};
+
+// Rebuild the simulation state as it was after the given history entry
+const replayHistory = (
+  live: SimulationState,
+  history: SimulationStepData[],
+  index: number
+): SimulationState => {
+  const base: SimulationState = {
+    ...live,
+    currentTime: initialState.currentTime,
+    queues: initialState.queues,
+    statistics: initialState.statistics,
+    detailedMetrics: initialState.detailedMetrics,
+    timeline: []
+  };
+  
+  return history.slice(0, index + 1).reduce(applySimulationStep, base);
+};
+
 // Create the store
 export const useSimulationStore = create<SimulationStateStore>()((set) => ({
   simulation: initialState,
+  history: [],
+  historyIndex: null,
+  algorithmConfigs: {},
+  generatorSettings: {
+    processCount: 5,
+    maxBurstTime: 10,
+    maxIoBurstTime: 5,
+    maxPriority: 10,
+    maxArrivalTime: 10,
+    ...DEFAULT_DISTRIBUTION_SETTINGS
+  },
+  cpuConfig: {},
   
   updateSimulation: (state) => set((prev) => ({
     simulation: { ...prev.simulation, ...state }
   })),
   
   resetSimulation: () => set({
-    simulation: initialState
+    simulation: initialState,
+    history: [],
+    historyIndex: null
+  }),
+  
+  // A config with other CPU settings (e.g. from a shared link) changes them for every algorithm
+  setAlgorithm: (algorithm, config = {}) => set((prev) => {
+    // Keep the settings as edited (including ones a single core ignores) while the config agrees with them
+    const configCpu = getCpuConfig(config);
+    const cpuConfig = JSON.stringify(configCpu) === JSON.stringify(getCpuConfig(withCpuConfig({}, prev.cpuConfig)))
+      ? prev.cpuConfig
+      : configCpu;
+    return {
+      simulation: {
+        ...prev.simulation,
+        algorithm,
+        algorithmConfig: config
+      },
+      algorithmConfigs: Object.fromEntries(
+        Object.entries({ ...prev.algorithmConfigs, [algorithm]: config })
+          .map(([name, algorithmConfig]) => [name, withCpuConfig(algorithmConfig, cpuConfig)])
+      ),
+      cpuConfig
+    };
   }),
   
-  setAlgorithm: (algorithm, config = {}) => set((prev) => ({
+  setProcesses: (processes, seed) => set((prev) => ({
     simulation: {
       ...prev.simulation,
-      algorithm,
-      algorithmConfig: config
+      processes,
+      workloadSeed: seed
     }
   })),
   
-  setProcesses: (processes) => set((prev) => ({
+  setGeneratorSettings: (settings) => set((prev) => ({
+    generatorSettings: { ...prev.generatorSettings, ...settings }
+  })),
+  
+  setCpuConfig: (cpuConfig) => set((prev) => ({
     simulation: {
       ...prev.simulation,
-      processes
-    }
+      algorithmConfig: withCpuConfig(prev.simulation.algorithmConfig, cpuConfig)
+    },
+    algorithmConfigs: Object.fromEntries(
+      Object.entries(prev.algorithmConfigs)
+        .map(([name, algorithmConfig]) => [name, withCpuConfig(algorithmConfig, cpuConfig)])
+    ),
+    cpuConfig
   })),
   
   updateSimulationStep: (data) => set((prev) => {
     console.log('Received simulation step update:', data);
     
-    // Extract detailed metrics if they exist
-    const detailedMetrics: Record<string, string | number> = {};
-    if (data.statistics) {
-      // Add detailed metrics if they exist
-      ['contextSwitches', 'cpuIdleTime', 'cpuIdlePercentage', 'readyQueueLength', 
-       'waitingQueueLength', 'algorithmType', 'tickSpeed'].forEach(key => {
-        if (data.statistics && data.statistics[key] !== undefined) {
-          detailedMetrics[key] = data.statistics[key];
-        }
-      });
+    // One-shot results arrive without queues and have no steps to scrub through.
+    // Nothing of an earlier run is kept: every process of this one has completed.
+    if (!data.queues) {
+      const simulation = applySimulationStep({
+        ...prev.simulation,
+        queues: initialState.queues,
+        detailedMetrics: initialState.detailedMetrics
+      }, data);
+      return {
+        simulation: {
+          ...simulation,
+          queues: { ...simulation.queues, completedProcesses: simulation.processes }
+        },
+        history: [],
+        historyIndex: null
+      };
     }
     
-    // Ensure all processes have an id (convert undefined to empty string if needed)
-    const safeProcesses = Array.isArray(data.processes) 
-      ? data.processes.map(p => ({
-          ...p,
-          id: p.id || `process-${Math.random().toString(36).substring(2, 9)}`
-        }))
-      : prev.simulation.processes;
-    
-    // Similarly ensure all processes in queues have an id
-    const safeReadyQueue = data.queues?.readyQueue 
-      ? data.queues.readyQueue.map(p => ({...p, id: p.id || `process-${Math.random().toString(36).substring(2, 9)}`}))
-      : prev.simulation.queues.readyQueue;
-    
-    const safeWaitingQueue = Array.isArray(data.queues?.waitingQueue) 
-      ? data.queues.waitingQueue.map(p => ({...p, id: p.id || `process-${Math.random().toString(36).substring(2, 9)}`}))
-      : prev.simulation.queues.waitingQueue;
-    
-    const safeCompletedProcesses = Array.isArray(data.queues?.completedProcesses) 
-      ? data.queues.completedProcesses.map(p => ({...p, id: p.id || `process-${Math.random().toString(36).substring(2, 9)}`}))
-      : prev.simulation.queues.completedProcesses;
-    
-    // Handle running process if present
-    const safeRunningProcess = data.queues?.runningProcess 
-      ? {...data.queues.runningProcess, id: data.queues.runningProcess.id || `process-${Math.random().toString(36).substring(2, 9)}`}
-      : prev.simulation.queues.runningProcess;
+    const startsNewRun = data.currentTime <= 0 || data.currentTime < prev.simulation.currentTime;
     
     return {
-      simulation: {
-        ...prev.simulation,
-        currentTime: data.currentTime ?? prev.simulation.currentTime,
-        processes: safeProcesses,
-        queues: {
-          ...prev.simulation.queues,
-          readyQueue: safeReadyQueue,
-          runningProcess: safeRunningProcess,
-          waitingQueue: safeWaitingQueue,
-          completedProcesses: safeCompletedProcesses
-        },
-        statistics: {
-          ...prev.simulation.statistics,
-          cpuUtilization: data.statistics?.cpuUtilization?.toString() ?? prev.simulation.statistics.cpuUtilization,
-          avgWaitingTime: data.statistics?.avgWaitingTime?.toString() ?? prev.simulation.statistics.avgWaitingTime,
-          avgTurnaroundTime: data.statistics?.avgTurnaroundTime?.toString() ?? prev.simulation.statistics.avgTurnaroundTime,
-          avgResponseTime: data.statistics?.avgResponseTime?.toString() ?? prev.simulation.statistics.avgResponseTime,
-          throughput: data.statistics?.throughput?.toString() ?? prev.simulation.statistics.throughput
-        },
-        // Add detailed metrics if they exist
-        detailedMetrics: Object.keys(detailedMetrics).length > 0 
-          ? detailedMetrics 
-          : prev.simulation.detailedMetrics
-      }
+      simulation: applySimulationStep(prev.simulation, data),
+      history: startsNewRun ? [data] : [...prev.history, data],
+      historyIndex: startsNewRun ? null : prev.historyIndex
     };
   }),
   
@@ -174,5 +408,33 @@ export const useSimulationStore = create<SimulationStateStore>()((set) => ({
       ...prev.simulation,
       status
     }
-  }))
-})); 
\ No newline at end of file
+  })),
+  
+  seekHistory: (index) => set((prev) => {
+    // Jumping to the newest entry is the same as following the live simulation
+    if (index === null || index >= prev.history.length - 1) {
+      return { historyIndex: null };
+    }
+    return { historyIndex: Math.max(0, index) };
+  }),
+  
+  stepHistory: (delta) => set((prev) => {
+    if (prev.history.length === 0) return {};
+    
+    const current = prev.historyIndex ?? prev.history.length - 1;
+    const next = Math.min(prev.history.length - 1, Math.max(0, current + delta));
+    return { historyIndex: next === prev.history.length - 1 ? null : next };
+  })
+}));
+
+// The simulation state to display: a past step while scrubbing, otherwise the live state
+export const useDisplayedSimulation = (): SimulationState => {
+  const simulation = useSimulationStore(state => state.simulation);
+  const history = useSimulationStore(state => state.history);
+  const historyIndex = useSimulationStore(state => state.historyIndex);
+  
+  return useMemo(() => {
+    if (historyIndex === null) return simulation;
+    return replayHistory(simulation, history, historyIndex);
+  }, [simulation, history, historyIndex]);
+};
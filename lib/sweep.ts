@@ -0,0 +1,70 @@
+import { SimulationConfig } from './api';
+import { BenchmarkRun } from './benchmark';
+
+// Upper bound on the number of runs in one sweep, to keep the browser responsive
+export const MAX_SWEEP_RUNS = 100;
+
+// Values from `from` to `to` inclusive, `step` apart
+export const getSweepValues = (from: number, to: number, step: number): number[] => {
+  const values: number[] = [];
+  // Count steps instead of accumulating, so fractional steps don't drift
+  for (let i = 0; from + i * step <= to + 1e-9; i++) {
+    values.push(Number((from + i * step).toFixed(6)));
+  }
+  return values;
+};
+
+// Check a sweep range, returning an error message when it cannot be run
+export const validateSweepRange = (from: number, to: number, step: number): string | null => {
+  if (![from, to, step].every(Number.isFinite)) return 'Enter a number for every field';
+  // The engine runs whole time units, so fractional quanta would repeat the same run
+  if (![from, to, step].every(Number.isInteger)) return 'Quanta and step must be whole numbers';
+  if (from < 1) return 'The quantum must be at least 1';
+  if (to < from) return 'The end of the range must not be below the start';
+  if (step <= 0) return 'The step must be greater than 0';
+  if (getSweepValues(from, to, step).length > MAX_SWEEP_RUNS) {
+    return `A sweep can run at most ${MAX_SWEEP_RUNS} values; increase the step`;
+  }
+  return null;
+};
+
+// One Round Robin run per quantum, on top of the given base config
+export const buildQuantumSweepRuns = (quanta: number[], baseConfig: SimulationConfig = {}): BenchmarkRun[] => {
+  return quanta.map(timeQuantum => ({
+    algorithm: 'RR',
+    config: { ...baseConfig, timeQuantum }
+  }));
+};
+
+// Index of the knee of a curve: the point farthest from the straight line through
+// its first and last points, after scaling both axes to [0, 1] (the Kneedle idea).
+// Returns null when the curve is too short or flat to have a knee.
+export const findKneeIndex = (points: Array<{ x: number; y: number }>): number | null => {
+  if (points.length < 3) return null;
+
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const xMin = Math.min(...xs);
+  const xRange = Math.max(...xs) - xMin;
+  const yMin = Math.min(...ys);
+  const yRange = Math.max(...ys) - yMin;
+  if (xRange === 0 || yRange === 0) return null;
+
+  const scaled = points.map(p => ({ x: (p.x - xMin) / xRange, y: (p.y - yMin) / yRange }));
+  const first = scaled[0];
+  const last = scaled[scaled.length - 1];
+  const dx = last.x - first.x;
+  const dy = last.y - first.y;
+  const length = Math.hypot(dx, dy);
+
+  let knee: number | null = null;
+  let maxDistance = 0;
+  scaled.forEach((p, i) => {
+    const distance = Math.abs(dy * (p.x - first.x) - dx * (p.y - first.y)) / length;
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      knee = i;
+    }
+  });
+  return knee;
+};
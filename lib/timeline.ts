@@ -0,0 +1,61 @@
+// Work a core does between processes: running the scheduler or switching context
+export type DispatchOverhead = 'scheduler' | 'switch';
+
+// A contiguous interval during which the CPU ran one process (or sat idle)
+export interface TimelineSlice {
+  processId: string | null; // null when the CPU is idle or busy with dispatch overhead
+  processName: string | null;
+  start: number;
+  end: number;
+  core?: number; // Core the slice ran on; only set in multi-core simulations
+  overhead?: DispatchOverhead; // Set on slices spent dispatching rather than running a process
+}
+
+// Append a slice, merging it into the previous one of the same core when the same process
+// keeps running (or the core stays idle or busy with the same overhead)
+export const appendTimelineSlice = (
+  timeline: TimelineSlice[],
+  slice: TimelineSlice
+): TimelineSlice[] => {
+  if (slice.end <= slice.start) return timeline;
+
+  let index = timeline.length - 1;
+  while (index >= 0 && timeline[index].core !== slice.core) {
+    index--;
+  }
+  const last = timeline[index];
+  if (last && last.processId === slice.processId && last.overhead === slice.overhead && last.end === slice.start) {
+    return [...timeline.slice(0, index), { ...last, end: slice.end }, ...timeline.slice(index + 1)];
+  }
+
+  return [...timeline, slice];
+};
+
+// Slices of every core, keyed by core (0 for single-CPU timelines)
+export const groupTimelineByCore = (timeline: TimelineSlice[]): TimelineSlice[][] => {
+  const cores: TimelineSlice[][] = [];
+  timeline.forEach(slice => {
+    const core = slice.core ?? 0;
+    if (!cores[core]) cores[core] = [];
+    cores[core].push(slice);
+  });
+  return Array.from(cores, slices => slices ?? []);
+};
+
+// Times at which a CPU switched from one process to a different one
+export const getContextSwitchTimes = (timeline: TimelineSlice[]): number[] => {
+  const times: number[] = [];
+  const lastProcessIds = new Map<number, string>();
+
+  timeline.forEach(slice => {
+    if (slice.processId === null) return;
+    const core = slice.core ?? 0;
+    const lastProcessId = lastProcessIds.get(core);
+    if (lastProcessId !== undefined && lastProcessId !== slice.processId) {
+      times.push(slice.start);
+    }
+    lastProcessIds.set(core, slice.processId);
+  });
+
+  return times;
+};
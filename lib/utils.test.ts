@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeMetrics } from './utils';
+
+describe('normalizeMetrics', () => {
+  it('returns z-scores and keeps the raw values', () => {
+    const normalized = normalizeMetrics(
+      [{ algorithm: 'FCFS', avgWaitingTime: '2' }, { algorithm: 'SJF', avgWaitingTime: 4 }, { algorithm: 'RR', avgWaitingTime: 6 }],
+      ['avgWaitingTime']
+    );
+
+    // Mean 4, population standard deviation sqrt(8 / 3)
+    const stdDev = Math.sqrt(8 / 3);
+    assert.equal(normalized[0].avgWaitingTime, -2 / stdDev);
+    assert.equal(normalized[1].avgWaitingTime, 0);
+    assert.equal(normalized[2].avgWaitingTime, 2 / stdDev);
+    assert.deepEqual(normalized.map(item => item.avgWaitingTimeOriginal), [2, 4, 6]);
+    assert.deepEqual(normalized.map(item => item.algorithm), ['FCFS', 'SJF', 'RR']);
+  });
+
+  it('normalizes a metric that is equal for every item to 0', () => {
+    const normalized = normalizeMetrics(
+      [{ contextSwitches: 3 }, { contextSwitches: 3 }],
+      ['contextSwitches']
+    );
+
+    assert.deepEqual(normalized.map(item => item.contextSwitches), [0, 0]);
+    assert.deepEqual(normalized.map(item => item.contextSwitchesOriginal), [3, 3]);
+  });
+
+  it('returns no items for an empty input', () => {
+    assert.deepEqual(normalizeMetrics([], ['avgWaitingTime']), []);
+  });
+});
@@ -1,6 +1,5 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
-import { AlgorithmResult } from './store/algorithm-results';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -28,40 +27,23 @@ export const generateRandomColor = (): string => {
   return color;
 };
 
-// Prepare data for algorithm comparison chart
-export const prepareComparisonData = (results: AlgorithmResult[]) => {
-  if (!results || !Array.isArray(results) || results.length === 0) return [];
-  
-  type ComparisonDataItem = {
-    algorithm: string;
-    cpuUtilization: number;
-    avgWaitingTime: number;
-    avgTurnaroundTime: number;
-    avgResponseTime: number;
-    throughput: number;
-  };
-  
-  try {
-    // Extract algorithm names and statistics
-    return results.map(result => {
-      if (!result || !result.statistics) {
-        console.error('Invalid result data:', result);
-        return null;
-      }
-      
-      return {
-        algorithm: result.algorithm || 'Unknown',
-        cpuUtilization: parseFloat(result.statistics.cpuUtilization || '0'),
-        avgWaitingTime: parseFloat(result.statistics.avgWaitingTime || '0'),
-        avgTurnaroundTime: parseFloat(result.statistics.avgTurnaroundTime || '0'),
-        avgResponseTime: parseFloat(result.statistics.avgResponseTime || '0'),
-        throughput: parseFloat(result.statistics.throughput || '0')
-      };
-    }).filter(item => item !== null) as ComparisonDataItem[]; // Filter out null items
-  } catch (error) {
-    console.error('Error preparing comparison data:', error);
-    return [];
-  }
+// Deterministic palette so a process keeps its color across views
+const PROCESS_COLORS = [
+  '#4f46e5', // indigo
+  '#06b6d4', // cyan
+  '#10b981', // emerald
+  '#f59e0b', // amber
+  '#ef4444', // red
+  '#8b5cf6', // violet
+  '#ec4899', // pink
+  '#84cc16', // lime
+  '#0ea5e9', // sky
+  '#f97316', // orange
+];
+
+// Get the chart color for the process at the given position
+export const getProcessColor = (index: number): string => {
+  return PROCESS_COLORS[index % PROCESS_COLORS.length];
 };
 
 // Format algorithms for select options
@@ -83,7 +65,10 @@ export const getAlgorithmFullName = (algorithm: string): string => {
     'RR': 'Round Robin',
     'PRIORITY': 'Priority (Non-preemptive)',
     'PRIORITY_P': 'Priority (Preemptive)',
-    'RANDOM': 'Random'
+    'RANDOM': 'Random',
+    'MLFQ': 'Multi-Level Feedback Queue',
+    'EDF': 'Earliest Deadline First',
+    'RM': 'Rate Monotonic'
   };
   
   return algorithmNames[algorithm] || algorithm;
@@ -93,3 +78,78 @@ export const getAlgorithmFullName = (algorithm: string): string => {
 export const generateId = (): string => {
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 };
+
+// Short, stable hash of a string (FNV-1a), for fingerprints rather than security
+export const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// Z-score normalize metrics across items, (value - mean) / standard deviation, so
+// metrics with different units can be compared on one scale. Metrics that are
+// equal for every item normalize to 0. The raw value is kept as `${key}Original`.
+export const normalizeMetrics = (
+  items: Record<string, string | number>[],
+  metricKeys: string[]
+): Record<string, string | number>[] => {
+  if (items.length === 0) return [];
+  
+  const toNumber = (value: string | number | undefined): number => {
+    const numValue = typeof value === 'string' ? parseFloat(value) : Number(value);
+    return Number.isFinite(numValue) ? numValue : 0;
+  };
+  
+  // First calculate means and standard deviations for each metric
+  const means: Record<string, number> = {};
+  const stdDevs: Record<string, number> = {};
+  
+  metricKeys.forEach(key => {
+    const values = items.map(item => toNumber(item[key]));
+    const mean = values.reduce((acc, val) => acc + val, 0) / values.length;
+    const variance = values.reduce((acc, val) => acc + Math.pow(val - mean, 2), 0) / values.length;
+    
+    means[key] = mean;
+    // Prevent division by zero when all values are the same
+    stdDevs[key] = Math.sqrt(variance) || 1;
+  });
+  
+  return items.map(item => {
+    const normalized: Record<string, string | number> = { ...item };
+    
+    metricKeys.forEach(key => {
+      const value = toNumber(item[key]);
+      normalized[key] = (value - means[key]) / stdDevs[key];
+      normalized[`${key}Original`] = value;
+    });
+    
+    return normalized;
+  });
+};
+
+// Quote a CSV cell when it contains a separator, quote or line break
+const escapeCsvCell = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Join rows of cells into CSV text
+export const formatCsv = (rows: Array<Array<string | number | undefined>>): string => {
+  return rows.map(row => row.map(escapeCsvCell).join(',')).join('\n') + '\n';
+};
+
+// Save text content as a file in the browser
+export const downloadFile = (filename: string, content: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,291 @@
+import { Process } from './api';
+import { formatCsv, generateId } from './utils';
+import { formatAffinity, parseAffinity } from './scheduler/smp';
+import { formatBursts, parseBursts, withBursts } from './scheduler/bursts';
+import { formatIoDevices, parseIoDevices } from './scheduler/devices';
+
+// Fields of a process that are imported and exported
+export type WorkloadField =
+  | 'name'
+  | 'arrivalTime'
+  | 'burstTime'
+  | 'ioBurstTime'
+  | 'priority'
+  | 'period'
+  | 'deadline'
+  | 'wcet'
+  | 'affinity'
+  | 'bursts'
+  | 'ioDevices';
+
+export const WORKLOAD_FIELDS: Array<{
+  key: WorkloadField;
+  label: string;
+  required: boolean;
+  // Normalized header names recognized for the field, most specific first
+  aliases: string[];
+}> = [
+  { key: 'name', label: 'Name', required: false, aliases: ['name', 'process', 'processname', 'pid', 'id'] },
+  { key: 'arrivalTime', label: 'Arrival Time', required: true, aliases: ['arrivaltime', 'arrival', 'at'] },
+  { key: 'burstTime', label: 'Burst Time', required: true, aliases: ['bursttime', 'burst', 'cpuburst', 'cpubursttime', 'cputime', 'bt'] },
+  { key: 'ioBurstTime', label: 'I/O Burst', required: false, aliases: ['iobursttime', 'ioburst', 'io', 'iotime'] },
+  { key: 'priority', label: 'Priority', required: false, aliases: ['priority', 'prio', 'pr'] },
+  { key: 'period', label: 'Period', required: false, aliases: ['period', 'interval'] },
+  { key: 'deadline', label: 'Deadline', required: false, aliases: ['deadline', 'relativedeadline'] },
+  { key: 'wcet', label: 'WCET', required: false, aliases: ['wcet', 'worstcaseexecutiontime'] },
+  { key: 'affinity', label: 'Affinity', required: false, aliases: ['affinity', 'cpuaffinity', 'cores'] },
+  { key: 'bursts', label: 'Bursts', required: false, aliases: ['bursts', 'burstsequence', 'burstlist'] },
+  { key: 'ioDevices', label: 'I/O Devices', required: false, aliases: ['iodevices', 'devices', 'device'] },
+];
+
+// Column index of every field in the imported table, or null when not mapped
+export type ColumnMapping = Record<WorkloadField, number | null>;
+
+// Raw table read from a file, before mapping
+export interface WorkloadTable {
+  headers: string[];
+  rows: string[][];
+  // Where each row is in the file: its 1-based line in CSV, its 1-based position in a JSON array
+  rowNumbers: number[];
+  rowLabel: 'Line' | 'Item';
+}
+
+export interface RowError {
+  // Row number from the table's rowNumbers; unset for problems with the file as a whole
+  row?: number;
+  message: string;
+}
+
+// One CSV row with the 1-based line it starts on
+export interface CsvRow {
+  cells: string[];
+  line: number;
+}
+
+export interface WorkloadImport {
+  processes: Process[];
+  errors: RowError[];
+}
+
+// Split CSV text into rows of cells, handling quoted cells, escaped quotes and CRLF.
+// Rows keep the line they start on, so problems can be reported against the file.
+export const parseCsv = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+        // Line breaks inside quoted cells still move to the next line of the file
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push({ cells: row, line: rowLine });
+      row = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push({ cells: row, line: rowLine });
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.cells.some(c => c.trim() !== ''));
+};
+
+// Read a CSV or JSON file's text into a table. JSON may be an array of process
+// objects or an object with a `processes` array.
+export const parseWorkloadFile = (fileName: string, text: string): WorkloadTable => {
+  if (fileName.toLowerCase().endsWith('.json') || text.trim().startsWith('[') || text.trim().startsWith('{')) {
+    const data = JSON.parse(text);
+    const items: unknown = Array.isArray(data) ? data : data?.processes;
+    if (!Array.isArray(items)) {
+      throw new Error('JSON must be an array of processes or an object with a "processes" array');
+    }
+
+    // Items keep their position in the array, counting the ones that aren't objects
+    const objects = items.flatMap((item: unknown, index) => (
+      typeof item === 'object' && item !== null ? [{ item: item as Record<string, unknown>, number: index + 1 }] : []
+    ));
+    const headers = Array.from(new Set(objects.flatMap(({ item }) => Object.keys(item))));
+    return {
+      headers,
+      rows: objects.map(({ item }) => headers.map(header => {
+        const value = item[header];
+        return value === undefined || value === null ? '' : String(value);
+      })),
+      rowNumbers: objects.map(({ number }) => number),
+      rowLabel: 'Item'
+    };
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  return {
+    headers: (header?.cells ?? []).map(cell => cell.trim()),
+    rows: rows.map(row => row.cells),
+    rowNumbers: rows.map(row => row.line),
+    rowLabel: 'Line'
+  };
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Guess which column holds each field from the header names
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+
+  WORKLOAD_FIELDS.forEach(field => {
+    const alias = field.aliases.find(candidate => normalized.includes(candidate));
+    mapping[field.key] = alias === undefined ? null : normalized.indexOf(alias);
+  });
+
+  return mapping;
+};
+
+// Build processes from a mapped table, collecting every problem per row.
+// Rows with errors are left out of `processes`.
+export const mapWorkloadTable = (table: WorkloadTable, mapping: ColumnMapping): WorkloadImport => {
+  const processes: Process[] = [];
+  const errors: RowError[] = [];
+  const seenNames = new Map<string, number>();
+
+  WORKLOAD_FIELDS.filter(field => field.required && mapping[field.key] === null).forEach(field => {
+    errors.push({ message: `No column is mapped to ${field.label}` });
+  });
+  if (errors.length > 0) {
+    return { processes, errors };
+  }
+
+  table.rows.forEach((cells, index) => {
+    const row = table.rowNumbers[index];
+    const rowErrors: string[] = [];
+    const cell = (field: WorkloadField) => {
+      const column = mapping[field];
+      return column === null ? '' : (cells[column] ?? '').trim();
+    };
+
+    // Parse a numeric cell; empty optional cells fall back to the default
+    const number = (field: WorkloadField, label: string, min: number, fallback?: number) => {
+      const raw = cell(field);
+      if (raw === '') {
+        if (fallback === undefined) rowErrors.push(`Missing ${label.toLowerCase()}`);
+        return fallback ?? 0;
+      }
+      const value = Number(raw);
+      if (!Number.isFinite(value)) {
+        rowErrors.push(`${label} "${raw}" is not a number`);
+      } else if (value < min) {
+        rowErrors.push(min === 0 ? `${label} must not be negative` : `${label} must be at least ${min}`);
+      }
+      return value;
+    };
+
+    const name = cell('name') || `Process-${index + 1}`;
+    const arrivalTime = number('arrivalTime', 'Arrival time', 0);
+    const burstTime = number('burstTime', 'Burst time', 1);
+    const ioBurstTime = number('ioBurstTime', 'I/O burst', 0, 0);
+    const priority = number('priority', 'Priority', 1, 1);
+    // Real-time fields stay unset when their cell is empty
+    const timing = (field: WorkloadField, label: string) => (
+      cell(field) === '' ? undefined : number(field, label, 1)
+    );
+    const period = timing('period', 'Period');
+    const deadline = timing('deadline', 'Deadline');
+    const wcet = timing('wcet', 'WCET');
+    // Core numbers separated by commas, spaces or semicolons
+    const affinity = parseAffinity(cell('affinity'));
+    if (cell('affinity') !== '' && affinity === undefined) {
+      rowErrors.push(`Affinity "${cell('affinity')}" lists no core numbers`);
+    }
+    // Alternating CPU and I/O durations; they replace the burst and I/O totals
+    const bursts = cell('bursts') === '' ? undefined : parseBursts(cell('bursts'));
+    if (bursts === null) {
+      rowErrors.push(`Bursts "${cell('bursts')}" must be positive numbers`);
+    } else if (bursts !== undefined && bursts.length % 2 === 0) {
+      rowErrors.push('Bursts must start and end with a CPU burst');
+    }
+    // Device of each I/O burst, e.g. "disk network"
+    const ioDevices = cell('ioDevices') === '' ? undefined : parseIoDevices(cell('ioDevices'));
+    if (ioDevices === null) {
+      rowErrors.push(`I/O devices "${cell('ioDevices')}" must be disk, network or keyboard`);
+    }
+
+    const duplicateOf = seenNames.get(name);
+    if (duplicateOf !== undefined) {
+      rowErrors.push(`Duplicate name "${name}" (also ${table.rowLabel.toLowerCase()} ${duplicateOf})`);
+    } else {
+      seenNames.set(name, row);
+    }
+
+    if (rowErrors.length > 0) {
+      rowErrors.forEach(message => errors.push({ row, message }));
+      return;
+    }
+
+    const process: Process = { id: generateId(), name, arrivalTime, burstTime, ioBurstTime, priority, period, deadline, wcet, affinity };
+    processes.push(bursts ? withBursts({ ...process, ioDevices: ioDevices ?? undefined }, bursts) : process);
+  });
+
+  return { processes, errors };
+};
+
+// Only the fields that describe the workload, without simulation results
+const toWorkloadRecord = (process: Process) => ({
+  name: process.name,
+  arrivalTime: process.arrivalTime,
+  burstTime: process.burstTime,
+  ioBurstTime: process.ioBurstTime ?? 0,
+  priority: process.priority ?? 1,
+  period: process.period,
+  deadline: process.deadline,
+  wcet: process.wcet,
+  affinity: process.affinity,
+  bursts: process.bursts,
+  ioDevices: process.ioDevices
+});
+
+export const exportWorkloadJson = (processes: Process[]): string => {
+  return JSON.stringify(processes.map(toWorkloadRecord), null, 2);
+};
+
+export const exportWorkloadCsv = (processes: Process[]): string => {
+  const keys = WORKLOAD_FIELDS.map(field => field.key);
+  return formatCsv([
+    keys,
+    ...processes.map(process => {
+      const record = {
+        ...toWorkloadRecord(process),
+        affinity: formatAffinity(process.affinity),
+        bursts: formatBursts(process.bursts),
+        ioDevices: formatIoDevices(process.ioDevices)
+      };
+      return keys.map(key => record[key]);
+    })
+  ]);
+};